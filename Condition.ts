@@ -16,49 +16,143 @@
 
 import {MessageData} from './ThreadData';
 import Utils from './utils';
+import Mocks from './Mocks';
+import {NamedConditions} from './NamedConditions';
+import {ConditionParseError, ConditionParser, SExpression, SList, Token, TokenType} from './ConditionParser';
 
 const RE_FLAG_PATTERN = /^\/(.*)\/([gimuys]*)$/;
+// Only with wildcards, so that text in single quotes is still matched as is
+const GLOB_PATTERN = /^'(.*[*?].*)'$/s;
+const DURATION_UNIT_IN_MS: { [unit: string]: number } = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+};
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const SIZE_UNIT_IN_BYTES: { [unit: string]: number } = {
+    '': 1,
+    b: 1,
+    kb: 1024,
+    mb: 1024 * 1024,
+    gb: 1024 * 1024 * 1024,
+};
+
+/**
+ * How a condition is evaluated against a message, see Condition.match.
+ */
+export interface ConditionTrace {
+    // Condition as in rule, only its operator for and, or and not, e.g. (from abc@gmail.com) or (and)
+    readonly condition: string;
+    matched: boolean;
+    // Values the matcher is evaluated against, e.g. addresses in "To"
+    readonly values: string[];
+    // Part of the value matched by regexp
+    matched_text?: string;
+    // Evaluated sub-conditions in order, without the ones skipped by short circuit
+    readonly children: ConditionTrace[];
+}
+
+interface Comparison {
+    readonly operator: string;
+    readonly value: number;
+}
 
 enum ConditionType {
-    AND, OR, NOT, SUBJECT, FROM, TO, CC, BCC, LIST, SENDER, RECEIVER, BODY,
+    AND, OR, NOT, SUBJECT, FROM, TO, CC, BCC, LIST, SENDER, RECEIVER, BODY, HTML, RAW, LINK_DOMAIN, HEADER, REPLY_TO,
+    FROM_DOMAIN, TO_DOMAIN, RECEIVER_DOMAIN, LIST_DOMAIN,
+    REPLY_TO_MISMATCH, OLDER_THAN, NEWER_THAN, RECEIVED_AFTER, RECEIVED_BEFORE, RECEIVED_BETWEEN, WEEKDAY,
+    HOUR_OF_DAY, HAS_ATTACHMENT, ATTACHMENT_NAME, ATTACHMENT_TYPE, ATTACHMENT_SIZE,
+    HAS_LABEL, IS_STARRED, IS_UNREAD, IN_INBOX, IS_IMPORTANT, MESSAGE_COUNT, REF,
+    SIZE, RECIPIENT_COUNT, CC_COUNT, BODY_LENGTH, ANY_MESSAGE, ALL_MESSAGES, FIRST_MESSAGE, LAST_MESSAGE, FOLD,
 }
 
 /**
- * S expression represents condition in rule.
+ * S expression represents condition in rule, see ConditionParser for tokens and comments.
  *
  * Syntax:
- * CONDITION_EXP := (OPERATOR CONDITION_LIST) | (MATCHER STRING)
+ * CONDITION_EXP := (OPERATOR CONDITION_LIST) | (QUANTIFIER CONDITION_EXP) | (MATCHER STRING)
+ *   | (header HEADER_NAME STRING) | (FLAG) | (ref NAME) | (fold CONDITION_EXP)
  * OPERATOR := and | or | not
- * MATCHER := subject | from | to | cc | bcc | list | sender | receiver | content
+ * QUANTIFIER := any-message | all-messages | first-message | last-message
+ * MATCHER := subject | from | to | cc | bcc | list | sender | receiver | reply-to | body | html | raw
+ * FLAG := reply-to-mismatch | has-attachment | is-starred | is-unread | in-inbox | is-important
  * CONDITION_LIST := CONDITION_EXP | CONDITION_EXP CONDITION_LIST
+ * NAME := name of a condition defined in the "conditions" sheet
+ * STRING := text, "exact text", 'glob' or /regexp/flags. Use quotes or regexp for values with parentheses.
+ *
+ * Glob matches the whole value, or the whole address for address matchers, case-insensitive, where "*" matches any
+ * text and "?" any character, e.g. (subject 'invoice #*') or (from '*-noreply@*'). Single quoted text without "*" or
+ * "?" is plain text including the quotes.
+ * (fold CONDITION_EXP) matches text of the sub-condition with both values and patterns folded, ignoring case,
+ *   diacritics and compatibility forms like full-width characters, e.g. (fold (subject rechnung)) matches
+ *   "RECHNUNG", and (fold (subject resume)) matches "Résumé".
+ *
+ * Time matchers, evaluated in the spreadsheet time zone:
+ * (older-than DURATION) | (newer-than DURATION), where DURATION is like 30m, 12h, 3d or 2w
+ * (received-after DATE) | (received-before DATE) | (received-between DATE DATE), where DATE is like 2020-01-31 or
+ *   2020-01-31T18:30, and bounds are inclusive at the given precision
+ * (weekday DAYS), where DAYS is like "mon-fri" or "sat sun"
+ * (hour-of-day HOURS), where HOURS is like "9-17" (9:00 to 16:59), "22-6" or "12"
+ *
+ * (html STRING) matches the HTML body, and (raw STRING) matches the raw MIME source including all parts. Like body,
+ * only their beginnings are matched for long messages.
+ * (link-domain DOMAIN) matches hosts of links in the HTML body, where DOMAIN is like "example.com", or
+ *   "*.example.com" for the domain and its subdomains
+ *
+ * Numeric matchers, where COMPARISON is like "> 10" with operator <, <=, >, >=, = or !=:
+ * (size COMPARISON), where size of the raw message in UTF-8 bytes is like "5MB"
+ * (recipient-count COMPARISON) counts addresses in "To", "Cc" and "Bcc", and (cc-count COMPARISON) in "Cc"
+ * (body-length COMPARISON) counts characters of the plain body without leading and trailing whitespace
+ *
+ * Domain matchers, comparing the domain of addresses, case-insensitive and ignoring display names:
+ * (from-domain DOMAIN) | (to-domain DOMAIN) | (receiver-domain DOMAIN) | (list-domain DOMAIN), where DOMAIN is like
+ *   "example.com", or "*.example.com" for the domain and its subdomains
+ *
+ * Attachment matchers, true if any attachment matches:
+ * (attachment-name STRING) | (attachment-type STRING) | (attachment-size COMPARISON), where COMPARISON is like "> 5MB"
+ *
+ * Quantifiers evaluate the sub-condition over all messages of the thread, including the ones too old to process, in
+ * the order they are sent. E.g. (any-message (body urgent)) matches each message of a thread where any message
+ * mentioned it, and (last-message (from me@gmail.com)) matches when the latest message is from me.
+ *
+ * Thread state matchers, evaluated before any action of this processing is applied:
+ * (has-label LABEL), where LABEL matches the label or any of its nested labels, e.g. "foo" matches "foo/bar"
+ * (message-count COMPARISON)
  */
 export default class Condition {
 
-    private static parseSubConditions(rest_str: string, condition_str: string): Condition[] {
-        const result = [];
-        let start = 0, level = 0, length = rest_str.length;
-        for (let end = 0; end < length; end++) {
-            switch (rest_str[end]) {
-                case '(':
-                    level++;
-                    break;
-                case ')':
-                    level--;
-                    Utils.assert(level >= 0, `Condition ${condition_str} has non-balanced parentheses`);
-                    if (level === 0) {
-                        if (start < end) {
-                            const sub_str = rest_str.substring(start, end + 1).trim();
-                            if (sub_str.length > 0) {
-                                result.push(new Condition(sub_str));
-                            }
-                        }
-                        start = end + 1;
-                    }
-                    break;
+    private static parseSubConditions(args: SExpression[], named_conditions: NamedConditions): Condition[] {
+        return args.map(arg => {
+            if (!ConditionParser.isList(arg)) {
+                throw new ConditionParseError(`Expected sub-condition but found "${arg.text}"`, arg.line, arg.column);
             }
+            return new Condition(arg, named_conditions);
+        });
+    }
+
+    // Returns the value of a matcher, keeping quotes of a string for exact matching.
+    // Multiple atoms are kept as they are in source, e.g. (subject hello world).
+    private static parseValue(args: SExpression[], list: SList): string {
+        if (args.length === 0) {
+            return "";
         }
-        Utils.assert(level === 0, `Condition ${condition_str} has non-balanced parentheses overall.`);
-        return result;
+        for (const arg of args) {
+            if (ConditionParser.isList(arg)) {
+                throw new ConditionParseError(
+                    `Unexpected sub-condition in matcher, use quotes or regexp for values with parentheses`,
+                    arg.open.line, arg.open.column);
+            }
+            if (args.length > 1 && arg.type !== TokenType.ATOM) {
+                throw new ConditionParseError(
+                    `Unexpected "${arg.text}", quoted string or regexp should be the only value`, arg.line, arg.column);
+            }
+        }
+        const first = args[0] as Token, last = args[args.length - 1] as Token;
+        if (first.type === TokenType.STRING) {
+            return `"${first.value}"`;
+        }
+        return list.text.substring(first.start - list.open.start, last.end - list.open.start);
     }
 
     private static escapeRegExp(pattern: string): string {
@@ -75,6 +169,11 @@ export default class Condition {
         } else if (pattern.startsWith('"') && pattern.endsWith('"')) {
             // exact matching
             return new RegExp(`(^|<)${Condition.escapeRegExp(pattern.substring(1, pattern.length - 1))}($|>)`, 'i');
+        } else if (GLOB_PATTERN.test(pattern)) {
+            // glob matching the whole value, or the whole address
+            const glob = pattern.substring(1, pattern.length - 1).split(/([*?])/).map(
+                part => part === '*' ? '[\\s\\S]*' : part === '?' ? '[\\s\\S]' : Condition.escapeRegExp(part)).join('');
+            return matching_address ? new RegExp(`(^|<)${glob}($|>)`, 'i') : new RegExp(`^${glob}$`, 'i');
         } else if (matching_address) {
             // ignoring label in address
             return new RegExp(`(^|<)${Condition.escapeRegExp(pattern).replace('@', '(\\+[^@]+)?@')}($|>)`, 'i');
@@ -84,56 +183,329 @@ export default class Condition {
         }
     }
 
+    public static parseDuration(str: string, condition_str: string): number {
+        const match = str.match(/^(\d+)\s*([mhdw])$/i);
+        Utils.assert(match !== null, `Condition ${condition_str} should have duration like 3d, but found "${str}"`);
+        const [/* ignored */, amount, unit] = match!;
+        return parseInt(amount) * DURATION_UNIT_IN_MS[unit.toLowerCase()];
+    }
+
+    private static parseDateBound(str: string, condition_str: string): string {
+        Utils.assert(/^\d{4}-\d{2}-\d{2}(T\d{2}(:\d{2})?)?$/.test(str),
+            `Condition ${condition_str} should have date like 2020-01-31 or 2020-01-31T18:30, but found "${str}"`);
+        return str;
+    }
+
+    // Parses space or comma separated values and ranges, e.g. "mon-fri sun" or "9-17 20".
+    // Ranges may wrap around, and exclude the end when exclusive_end is set.
+    private static parseValueRanges(
+        str: string, condition_str: string, max: number, exclusive_end: boolean,
+        parseValue: (value: string) => number): Set<number> {
+        const result = new Set<number>();
+        for (const range_str of str.split(/[\s,]+/)) {
+            if (range_str.length === 0) {
+                continue;
+            }
+            const [start_str, end_str, ...rest] = range_str.split('-');
+            Utils.assert(rest.length === 0, `Condition ${condition_str} has invalid range "${range_str}"`);
+            const start = parseValue(start_str);
+            const end = end_str === undefined ? start : parseValue(end_str);
+            Utils.assert(start >= 0 && start < max && end >= 0 && end < max,
+                `Condition ${condition_str} has invalid value in "${range_str}"`);
+            if (end_str === undefined || !exclusive_end) {
+                result.add(end);
+            }
+            for (let value = start; value !== end; value = (value + 1) % max) {
+                result.add(value);
+            }
+        }
+        Utils.assert(result.size > 0, `Condition ${condition_str} should have value but not found`);
+        return result;
+    }
+
+    private static parseLabelRegExp(pattern: string, condition_str: string): RegExp {
+        if (RE_FLAG_PATTERN.test(pattern) || GLOB_PATTERN.test(pattern)
+            || (pattern.startsWith('"') && pattern.endsWith('"'))) {
+            return Condition.parseRegExp(pattern, condition_str, false);
+        }
+        Utils.assert(pattern.length > 0, `Condition ${condition_str} should have value but not found`);
+        return new RegExp(`^${Condition.escapeRegExp(pattern)}(/|$)`, 'i');
+    }
+
+    // Plain domain matches exactly, "*." prefix matches the domain and its subdomains, case-insensitive
+    private static parseDomainRegExp(pattern: string, condition_str: string): RegExp {
+        if (RE_FLAG_PATTERN.test(pattern) || GLOB_PATTERN.test(pattern)
+            || (pattern.startsWith('"') && pattern.endsWith('"'))) {
+            return Condition.parseRegExp(pattern, condition_str, false);
+        }
+        const domain = pattern.startsWith('*.') ? pattern.substring(2) : pattern;
+        // Wildcard of a top-level domain like *.com is likely a mistake
+        Utils.assert(/^[^\s@*.]+(\.[^\s@*.]+)+$/.test(domain),
+            `Condition ${condition_str} should have domain like example.com or *.example.com`);
+        const subdomain = pattern.startsWith('*.') ? '([^.]+\\.)*' : '';
+        return new RegExp(`^${subdomain}${Condition.escapeRegExp(domain)}$`, 'i');
+    }
+
+    // Folds compatibility characters like full-width ones, diacritics and "ß", e.g. "Ｍüße" => "Musse"
+    private static foldText(text: string): string {
+        if (!/[^\x00-\x7f]/.test(text)) {
+            return text;
+        }
+        return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').normalize('NFKC').replace(/[ßẞ]/g, 'ss');
+    }
+
+    private static parseSize(str: string): number {
+        const match = str.match(/^(\d+(?:\.\d+)?)\s*([kmg]?b)?$/i);
+        if (match === null) {
+            return NaN;
+        }
+        return parseFloat(match[1]) * SIZE_UNIT_IN_BYTES[(match[2] || '').toLowerCase()];
+    }
+
+    private static parseCount(str: string): number {
+        return /^\d+$/.test(str) ? parseInt(str) : NaN;
+    }
+
+    private static countAddresses(...addresses: string[]): number {
+        return addresses.filter(address => address.length > 0).length;
+    }
+
+    private static parseComparison(
+        str: string, condition_str: string, parseValue: (value: string) => number): Comparison {
+        const match = str.match(/^(<=|>=|!=|<|>|=)\s*(.+)$/);
+        Utils.assert(match !== null, `Condition ${condition_str} should have comparison like "> 10", but found "${str}"`);
+        const [/* ignored */, operator, value_str] = match!;
+        const value = parseValue(value_str.trim());
+        Utils.assert(!isNaN(value), `Condition ${condition_str} has invalid value "${value_str}"`);
+        return {operator, value};
+    }
+
+    private static compare(actual: number, comparison: Comparison): boolean {
+        switch (comparison.operator) {
+            case '<':
+                return actual < comparison.value;
+            case '<=':
+                return actual <= comparison.value;
+            case '>':
+                return actual > comparison.value;
+            case '>=':
+                return actual >= comparison.value;
+            case '=':
+                return actual === comparison.value;
+            case '!=':
+                return actual !== comparison.value;
+        }
+        throw `Unexpected comparison operator ${comparison.operator}`;
+    }
+
     private readonly type: ConditionType;
+    // Condition as in rule for trace, see ConditionTrace
+    private readonly source: string;
+    // Value of matcher as in source, e.g. abc@gmail.com, "exact text" or /regexp/i
+    private readonly pattern: string;
     private readonly regexp: RegExp;
+    private readonly header_name: string;
+    private readonly ref_name: string;
+    private readonly duration_ms: number;
+    // Inclusive bounds in "yyyy-MM-ddTHH:mm" format, compared at their own precision. Empty means unbounded.
+    private readonly date_range: [string, string];
+    // Weekdays (0 for Sunday) or hours of day
+    private readonly time_values: Set<number>;
+    private readonly comparison: Comparison;
     private readonly sub_conditions: Condition[];
+    // Whether it matches a message by itself, so that its result can be shared with identical conditions
+    private readonly is_leaf: boolean;
+    private canonical_cache: string | undefined;
+    private folded_regexp: RegExp | undefined;
 
-    constructor(condition_str: string) {
-        condition_str = condition_str.trim();
-        Utils.assert(condition_str.startsWith('(') && condition_str.endsWith(')'),
-            `Condition ${condition_str} should be surrounded by ().`);
-        const first_space = condition_str.indexOf(" ");
-        const type_str = condition_str.substring(1, first_space).trim().toUpperCase();
-        const rest_str = condition_str.substring(first_space + 1, condition_str.length - 1).trim();
-        this.type = ConditionType[type_str as keyof typeof ConditionType];
-        switch (this.type) {
-            case ConditionType.AND:
-            case ConditionType.OR: {
-                this.sub_conditions = Condition.parseSubConditions(rest_str, condition_str);
-                break;
+    constructor(condition: string | SList, named_conditions: NamedConditions = new NamedConditions()) {
+        const list = typeof condition === 'string' ? ConditionParser.parse(condition) : condition;
+        const condition_str = list.text;
+        try {
+            const [head, ...args] = list.items;
+            if (head === undefined || ConditionParser.isList(head) || head.type !== TokenType.ATOM) {
+                throw `Condition ${condition_str} should start with a type`;
             }
-            case ConditionType.NOT: {
-                this.sub_conditions = Condition.parseSubConditions(rest_str, condition_str);
-                if (this.sub_conditions.length !== 1) {
-                  throw `Conditions of type ${type_str} must have exactly one sub-condition, but found ${this.sub_conditions.length}: ${rest_str}`;
+            const type_str = head.text;
+            this.type = ConditionType[type_str.toUpperCase().replace(/-/g, '_') as keyof typeof ConditionType];
+            if (this.type === undefined) {
+                throw `Unexpected condition type ${type_str} from ${condition_str}.`;
+            }
+            const is_operator = [
+                ConditionType.AND, ConditionType.OR, ConditionType.NOT, ConditionType.ANY_MESSAGE,
+                ConditionType.ALL_MESSAGES, ConditionType.FIRST_MESSAGE, ConditionType.LAST_MESSAGE, ConditionType.FOLD,
+            ].indexOf(this.type) >= 0;
+            this.source = is_operator ? `(${type_str})` : condition_str.replace(/\s+/g, ' ');
+            this.is_leaf = !is_operator && this.type !== ConditionType.REF;
+            // Operators and header take their arguments separately, others take a single value
+            const takes_arguments = is_operator || this.type === ConditionType.HEADER;
+            const rest_str = takes_arguments ? "" : Condition.parseValue(args, list);
+            this.pattern = rest_str;
+            switch (this.type) {
+                case ConditionType.AND:
+                case ConditionType.OR: {
+                    this.sub_conditions = Condition.parseSubConditions(args, named_conditions);
+                    break;
                 }
-                break;
+                case ConditionType.NOT:
+                case ConditionType.ANY_MESSAGE:
+                case ConditionType.ALL_MESSAGES:
+                case ConditionType.FIRST_MESSAGE:
+                case ConditionType.LAST_MESSAGE:
+                case ConditionType.FOLD: {
+                    this.sub_conditions = Condition.parseSubConditions(args, named_conditions);
+                    if (this.sub_conditions.length !== 1) {
+                      throw `Conditions of type ${type_str} must have exactly one sub-condition, but found ${this.sub_conditions.length}: ${condition_str}`;
+                    }
+                    break;
+                }
+                case ConditionType.REF: {
+                    Utils.assert(rest_str.length > 0, `Condition ${condition_str} should have name but not found`);
+                    this.ref_name = rest_str;
+                    this.sub_conditions = [named_conditions.get(rest_str)];
+                    break;
+                }
+                case ConditionType.FROM:
+                case ConditionType.TO:
+                case ConditionType.CC:
+                case ConditionType.BCC:
+                case ConditionType.LIST:
+                case ConditionType.SENDER:
+                case ConditionType.RECEIVER:
+                case ConditionType.REPLY_TO: {
+                    this.regexp = Condition.parseRegExp(rest_str, condition_str, true);
+                    break;
+                }
+                case ConditionType.REPLY_TO_MISMATCH:
+                case ConditionType.HAS_ATTACHMENT:
+                case ConditionType.IS_STARRED:
+                case ConditionType.IS_UNREAD:
+                case ConditionType.IN_INBOX:
+                case ConditionType.IS_IMPORTANT: {
+                    Utils.assert(rest_str.length === 0, `Condition ${condition_str} should not have value`);
+                    break;
+                }
+                case ConditionType.SUBJECT:
+                case ConditionType.BODY:
+                case ConditionType.HTML:
+                case ConditionType.RAW:
+                case ConditionType.ATTACHMENT_NAME:
+                case ConditionType.ATTACHMENT_TYPE: {
+                    this.regexp = Condition.parseRegExp(rest_str, condition_str, false);
+                    break;
+                }
+                case ConditionType.ATTACHMENT_SIZE: {
+                    this.comparison = Condition.parseComparison(rest_str, condition_str, Condition.parseSize);
+                    break;
+                }
+                case ConditionType.FROM_DOMAIN:
+                case ConditionType.TO_DOMAIN:
+                case ConditionType.RECEIVER_DOMAIN:
+                case ConditionType.LIST_DOMAIN:
+                case ConditionType.LINK_DOMAIN: {
+                    this.regexp = Condition.parseDomainRegExp(rest_str, condition_str);
+                    break;
+                }
+                case ConditionType.HAS_LABEL: {
+                    this.regexp = Condition.parseLabelRegExp(rest_str, condition_str);
+                    break;
+                }
+                case ConditionType.SIZE: {
+                    this.comparison = Condition.parseComparison(rest_str, condition_str, Condition.parseSize);
+                    break;
+                }
+                case ConditionType.MESSAGE_COUNT:
+                case ConditionType.RECIPIENT_COUNT:
+                case ConditionType.CC_COUNT:
+                case ConditionType.BODY_LENGTH: {
+                    this.comparison = Condition.parseComparison(rest_str, condition_str, Condition.parseCount);
+                    break;
+                }
+                case ConditionType.HEADER: {
+                    const [name, ...value] = args;
+                    Utils.assert(name !== undefined && !ConditionParser.isList(name) && name.type === TokenType.ATOM
+                        && value.length > 0, `Condition ${condition_str} should have header name and value`);
+                    this.header_name = (name as Token).text.toLowerCase();
+                    this.pattern = Condition.parseValue(value, list);
+                    this.regexp = Condition.parseRegExp(this.pattern, condition_str, false);
+                    break;
+                }
+                case ConditionType.OLDER_THAN:
+                case ConditionType.NEWER_THAN: {
+                    this.duration_ms = Condition.parseDuration(rest_str, condition_str);
+                    break;
+                }
+                case ConditionType.RECEIVED_AFTER: {
+                    this.date_range = [Condition.parseDateBound(rest_str, condition_str), ""];
+                    break;
+                }
+                case ConditionType.RECEIVED_BEFORE: {
+                    this.date_range = ["", Condition.parseDateBound(rest_str, condition_str)];
+                    break;
+                }
+                case ConditionType.RECEIVED_BETWEEN: {
+                    const bounds = rest_str.split(/\s+/);
+                    Utils.assert(bounds.length === 2, `Condition ${condition_str} should have start and end dates`);
+                    this.date_range = [
+                        Condition.parseDateBound(bounds[0], condition_str),
+                        Condition.parseDateBound(bounds[1], condition_str),
+                    ];
+                    break;
+                }
+                case ConditionType.WEEKDAY: {
+                    this.time_values = Condition.parseValueRanges(rest_str, condition_str, 7, false,
+                        value => WEEKDAY_NAMES.indexOf(value.substring(0, 3).toLowerCase()));
+                    break;
+                }
+                case ConditionType.HOUR_OF_DAY: {
+                    this.time_values = Condition.parseValueRanges(rest_str, condition_str, 24, true,
+                        value => /^\d+$/.test(value) ? parseInt(value) : -1);
+                    break;
+                }
+                default:
+                    throw `Unexpected condition type ${type_str} from ${condition_str}.`;
             }
-            case ConditionType.FROM:
-            case ConditionType.TO:
-            case ConditionType.CC:
-            case ConditionType.BCC:
-            case ConditionType.LIST:
-            case ConditionType.SENDER:
-            case ConditionType.RECEIVER: {
-                this.regexp = Condition.parseRegExp(rest_str, condition_str, true);
-                break;
+        } catch (e) {
+            if (e instanceof ConditionParseError) {
+                throw e;
             }
-            case ConditionType.SUBJECT:
-            case ConditionType.BODY: {
-                this.regexp = Condition.parseRegExp(rest_str, condition_str, false);
-                break;
+            throw new ConditionParseError(`${e}`, list.open.line, list.open.column);
+        }
+    }
+
+    // Evaluates the condition, and appends how it's evaluated to trace if given.
+    // Folded is whether it's inside (fold), which matches text with both values and pattern folded, see foldText.
+    match(message_data: MessageData, trace?: ConditionTrace[], folded: boolean = false): boolean {
+        if (trace === undefined) {
+            if (!this.is_leaf) {
+                return this.evaluate(message_data, undefined, folded);
             }
-            default:
-                throw `Unexpected condition type ${type_str} from ${condition_str}.`;
+            // Identical leaves in different rules are evaluated once per message
+            const key = folded ? `(FOLD ${this.canonical()})` : this.canonical();
+            let result = message_data.leaf_results.get(key);
+            if (result === undefined) {
+                result = this.evaluate(message_data, undefined, folded);
+                message_data.leaf_results.set(key, result);
+            }
+            return result;
         }
+        const node: ConditionTrace = {condition: this.source, matched: false, values: [], children: []};
+        trace.push(node);
+        node.matched = this.evaluate(message_data, node, folded);
+        return node.matched;
     }
 
-    match(message_data: MessageData): boolean {
+    private evaluate(message_data: MessageData, node: ConditionTrace | undefined, folded: boolean): boolean {
+        const children = node === undefined ? undefined : node.children;
+        const record = (...values: (string | number | boolean)[]) => {
+            if (node !== undefined) {
+                node.values.push(...values.map(value => `${value}`));
+            }
+        };
         switch (this.type) {
             case ConditionType.AND: {
                 for (const sub_condition of this.sub_conditions) {
-                    if (!sub_condition.match(message_data)) {
+                    if (!sub_condition.match(message_data, children, folded)) {
                         return false;
                     }
                 }
@@ -141,52 +513,489 @@ export default class Condition {
             }
             case ConditionType.OR: {
                 for (const sub_condition of this.sub_conditions) {
-                    if (sub_condition.match(message_data)) {
+                    if (sub_condition.match(message_data, children, folded)) {
                         return true;
                     }
                 }
                 return false;
             }
             case ConditionType.NOT: {
-              return !this.sub_conditions[0].match(message_data);
+              return !this.sub_conditions[0].match(message_data, children, folded);
+            }
+            case ConditionType.ANY_MESSAGE: {
+                return message_data.thread_messages.some(
+                    thread_message => this.sub_conditions[0].match(thread_message, children, folded));
+            }
+            case ConditionType.ALL_MESSAGES: {
+                return message_data.thread_messages.every(
+                    thread_message => this.sub_conditions[0].match(thread_message, children, folded));
+            }
+            case ConditionType.FIRST_MESSAGE: {
+                return this.sub_conditions[0].match(message_data.thread_messages[0], children, folded);
+            }
+            case ConditionType.LAST_MESSAGE: {
+                const thread_messages = message_data.thread_messages;
+                return this.sub_conditions[0].match(thread_messages[thread_messages.length - 1], children, folded);
+            }
+            case ConditionType.REF: {
+                return this.sub_conditions[0].match(message_data, children, folded);
+            }
+            case ConditionType.FOLD: {
+                return this.sub_conditions[0].match(message_data, children, true);
             }
             case ConditionType.FROM: {
-                return this.matchAddress(message_data.from);
+                return this.matchValues(node, folded, message_data.from);
             }
             case ConditionType.TO: {
-                return this.matchAddress(...message_data.to);
+                return this.matchValues(node, folded, ...message_data.to);
             }
             case ConditionType.CC: {
-                return this.matchAddress(...message_data.cc);
+                return this.matchValues(node, folded, ...message_data.cc);
             }
             case ConditionType.BCC: {
-                return this.matchAddress(...message_data.bcc);
+                return this.matchValues(node, folded, ...message_data.bcc);
             }
             case ConditionType.LIST: {
-                return this.matchAddress(message_data.list);
+                return this.matchValues(node, folded, message_data.list);
             }
             case ConditionType.SENDER: {
-                return this.matchAddress(message_data.from);
+                return this.matchValues(node, folded, message_data.from);
             }
             case ConditionType.RECEIVER: {
-                return this.matchAddress(...message_data.receivers);
+                return this.matchValues(node, folded, ...message_data.receivers);
+            }
+            case ConditionType.REPLY_TO: {
+                return this.matchValues(node, folded, ...message_data.reply_to);
+            }
+            case ConditionType.REPLY_TO_MISMATCH: {
+                const from = MessageData.parseEmailAddress(message_data.from);
+                record(message_data.from, ...message_data.reply_to);
+                return message_data.reply_to.some(
+                    address => address.length > 0 && MessageData.parseEmailAddress(address) !== from);
             }
             case ConditionType.SUBJECT: {
-                return this.regexp.test(message_data.subject);
+                return this.matchValues(node, folded, message_data.subject);
             }
             case ConditionType.BODY: {
-                return this.regexp.test(message_data.body);
+                return this.matchValues(node, folded, message_data.body);
+            }
+            case ConditionType.HTML: {
+                return this.matchValues(node, folded, message_data.html);
+            }
+            case ConditionType.RAW: {
+                return this.matchValues(node, folded, message_data.raw_content);
+            }
+            case ConditionType.LINK_DOMAIN: {
+                return this.matchValues(node, folded, ...message_data.link_domains);
+            }
+            case ConditionType.FROM_DOMAIN: {
+                return this.matchDomains(node, folded, message_data.from);
+            }
+            case ConditionType.TO_DOMAIN: {
+                return this.matchDomains(node, folded, ...message_data.to);
+            }
+            case ConditionType.RECEIVER_DOMAIN: {
+                return this.matchDomains(node, folded, ...message_data.receivers);
+            }
+            case ConditionType.LIST_DOMAIN: {
+                return this.matchDomains(node, folded, message_data.list);
+            }
+            case ConditionType.HEADER: {
+                return this.matchValues(node, folded, ...(message_data.headers.get(this.header_name) || []));
+            }
+            case ConditionType.OLDER_THAN: {
+                record(message_data.local_date_str);
+                return Date.now() - message_data.date.getTime() > this.duration_ms;
+            }
+            case ConditionType.NEWER_THAN: {
+                record(message_data.local_date_str);
+                return Date.now() - message_data.date.getTime() <= this.duration_ms;
+            }
+            case ConditionType.RECEIVED_AFTER:
+            case ConditionType.RECEIVED_BEFORE:
+            case ConditionType.RECEIVED_BETWEEN: {
+                const [start, end] = this.date_range;
+                const date_str = message_data.local_date_str;
+                record(date_str);
+                return (start.length === 0 || date_str.substring(0, start.length) >= start)
+                    && (end.length === 0 || date_str.substring(0, end.length) <= end);
+            }
+            case ConditionType.WEEKDAY: {
+                record(WEEKDAY_NAMES[message_data.local_weekday]);
+                return this.time_values.has(message_data.local_weekday);
+            }
+            case ConditionType.HOUR_OF_DAY: {
+                record(message_data.local_hour);
+                return this.time_values.has(message_data.local_hour);
+            }
+            case ConditionType.HAS_ATTACHMENT: {
+                record(...message_data.attachments.map(attachment => attachment.name));
+                return message_data.attachments.length > 0;
+            }
+            case ConditionType.ATTACHMENT_NAME: {
+                return this.matchValues(node, folded, ...message_data.attachments.map(attachment => attachment.name));
+            }
+            case ConditionType.ATTACHMENT_TYPE: {
+                return this.matchValues(node, folded, ...message_data.attachments.map(attachment => attachment.content_type));
+            }
+            case ConditionType.ATTACHMENT_SIZE: {
+                record(...message_data.attachments.map(attachment => attachment.size));
+                return message_data.attachments.some(
+                    attachment => Condition.compare(attachment.size, this.comparison));
+            }
+            case ConditionType.HAS_LABEL: {
+                return this.matchValues(node, folded, ...message_data.thread_state.label_names);
+            }
+            case ConditionType.IS_STARRED: {
+                record(message_data.thread_state.starred);
+                return message_data.thread_state.starred;
+            }
+            case ConditionType.IS_UNREAD: {
+                record(message_data.thread_state.unread);
+                return message_data.thread_state.unread;
+            }
+            case ConditionType.IN_INBOX: {
+                record(message_data.thread_state.in_inbox);
+                return message_data.thread_state.in_inbox;
+            }
+            case ConditionType.IS_IMPORTANT: {
+                record(message_data.thread_state.important);
+                return message_data.thread_state.important;
+            }
+            case ConditionType.MESSAGE_COUNT: {
+                record(message_data.thread_state.message_count);
+                return Condition.compare(message_data.thread_state.message_count, this.comparison);
+            }
+            case ConditionType.SIZE: {
+                record(message_data.size);
+                return Condition.compare(message_data.size, this.comparison);
+            }
+            case ConditionType.RECIPIENT_COUNT: {
+                const count = Condition.countAddresses(...message_data.to, ...message_data.cc, ...message_data.bcc);
+                record(count);
+                return Condition.compare(count, this.comparison);
+            }
+            case ConditionType.CC_COUNT: {
+                const count = Condition.countAddresses(...message_data.cc);
+                record(count);
+                return Condition.compare(count, this.comparison);
+            }
+            case ConditionType.BODY_LENGTH: {
+                record(message_data.body_length);
+                return Condition.compare(message_data.body_length, this.comparison);
+            }
+        }
+    }
+
+    // Whether regexp matches any of values, recording the values and the matched text in node if given
+    private matchValues(node: ConditionTrace | undefined, folded: boolean, ...values: string[]): boolean {
+        const regexp = folded ? this.getFoldedRegExp() : this.regexp;
+        if (folded) {
+            values = values.map(Condition.foldText);
+        }
+        if (node === undefined) {
+            return values.some(value => regexp.test(value));
+        }
+        node.values.push(...values);
+        for (const value of values) {
+            const match = value.match(regexp);
+            if (match !== null) {
+                node.matched_text = match[0];
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private matchDomains(node: ConditionTrace | undefined, folded: boolean, ...addresses: string[]): boolean {
+        return this.matchValues(node, folded, ...addresses.map(MessageData.parseEmailDomain).filter(domain => domain.length > 0));
+    }
+
+    // Regexp of folded pattern, case-insensitive. Only literal characters are folded, and escaped in case they are
+    // folded into regexp syntax, e.g. full-width "＊".
+    private getFoldedRegExp(): RegExp {
+        if (this.folded_regexp === undefined) {
+            const source = this.regexp.source.replace(
+                /[^\x00-\x7f]+/g, text => Condition.escapeRegExp(Condition.foldText(text)));
+            const flags = this.regexp.flags.indexOf('i') < 0 ? this.regexp.flags + 'i' : this.regexp.flags;
+            this.folded_regexp = new RegExp(source, flags);
+        }
+        return this.folded_regexp;
+    }
+
+    // Unique string of what this condition matches, with references expanded
+    canonical(): string {
+        if (this.canonical_cache === undefined) {
+            this.canonical_cache = this.buildCanonical();
+        }
+        return this.canonical_cache;
+    }
+
+    private buildCanonical(): string {
+        if (this.type === ConditionType.REF) {
+            return this.sub_conditions[0].canonical();
+        }
+        const parts: string[] = [ConditionType[this.type]];
+        if (this.header_name) {
+            parts.push(this.header_name);
+        }
+        if (this.regexp) {
+            parts.push(this.regexp.toString());
+        }
+        if (this.duration_ms !== undefined) {
+            parts.push(`${this.duration_ms}`);
+        }
+        if (this.date_range) {
+            parts.push(this.date_range.join(","));
+        }
+        if (this.time_values) {
+            parts.push(Array.from(this.time_values.values()).sort((a, b) => a - b).join(","));
+        }
+        if (this.comparison) {
+            parts.push(`${this.comparison.operator}${this.comparison.value}`);
+        }
+        if (this.sub_conditions) {
+            parts.push(...this.sub_conditions.map(c => c.canonical()));
+        }
+        return `(${parts.join(" ")})`;
+    }
+
+    // Keys of addresses that every matching message has one of, e.g. ["from:abc@gmail.com"], see RuleIndex.
+    // Undefined if the condition isn't limited to exact addresses.
+    getAddressKeys(): string[] | undefined {
+        switch (this.type) {
+            case ConditionType.AND: {
+                // Any sub-condition limits the addresses, the one with fewest keys limits them most
+                let result: string[] | undefined = undefined;
+                for (const sub_condition of this.sub_conditions) {
+                    const keys = sub_condition.getAddressKeys();
+                    if (keys !== undefined && (result === undefined || keys.length < result.length)) {
+                        result = keys;
+                    }
+                }
+                return result;
+            }
+            case ConditionType.OR: {
+                const result: string[] = [];
+                for (const sub_condition of this.sub_conditions) {
+                    const keys = sub_condition.getAddressKeys();
+                    if (keys === undefined) {
+                        return undefined;
+                    }
+                    result.push(...keys);
+                }
+                return result;
+            }
+            case ConditionType.REF:
+                return this.sub_conditions[0].getAddressKeys();
+            case ConditionType.FROM:
+            case ConditionType.SENDER:
+                return this.getAddressKey('from');
+            case ConditionType.LIST:
+                return this.getAddressKey('list');
+            case ConditionType.TO:
+            case ConditionType.CC:
+            case ConditionType.BCC:
+            case ConditionType.RECEIVER:
+                return this.getAddressKey('receiver');
+            default:
+                return undefined;
+        }
+    }
+
+    private getAddressKey(field: string): string[] | undefined {
+        // Only plain and exact addresses, which match whole address in value
+        const address = this.pattern.replace(/^"(.*)"$/, '$1');
+        if (RE_FLAG_PATTERN.test(this.pattern) || !/^[^\s"'<>@*?]+@[^\s"'<>@*?]+$/.test(address)) {
+            return undefined;
+        }
+        return [`${field}:${MessageData.normalizeAddress(address)}`];
+    }
+
+    // Groups captured by the first subject regexp matching the message, e.g. ["ticket #1234", "1234"] for
+    // (subject /ticket #(\d+)/), or undefined if none matches. Negated and other messages' conditions don't count.
+    getSubjectCaptures(message_data: MessageData, folded: boolean = false): string[] | undefined {
+        switch (this.type) {
+            case ConditionType.AND:
+            case ConditionType.OR: {
+                for (const sub_condition of this.sub_conditions) {
+                    const captures = sub_condition.getSubjectCaptures(message_data, folded);
+                    if (captures !== undefined) {
+                        return captures;
+                    }
+                }
+                return undefined;
             }
+            case ConditionType.REF:
+                return this.sub_conditions[0].getSubjectCaptures(message_data, folded);
+            case ConditionType.FOLD:
+                return this.sub_conditions[0].getSubjectCaptures(message_data, true);
+            case ConditionType.SUBJECT: {
+                const match = folded ? Condition.foldText(message_data.subject).match(this.getFoldedRegExp())
+                    : message_data.subject.match(this.regexp);
+                return match === null ? undefined : Array.from(match, group => group || '');
+            }
+            default:
+                return undefined;
         }
     }
 
-    private matchAddress(...addresses: string[]) {
-        return addresses.some(address => this.regexp.test(address));
+    // Whether it matches any message, as far as can be told without a message
+    isAlwaysTrue(): boolean {
+        switch (this.type) {
+            case ConditionType.AND:
+                return this.sub_conditions.every(c => c.isAlwaysTrue());
+            case ConditionType.OR:
+                return this.sub_conditions.some(c => c.isAlwaysTrue());
+            case ConditionType.REF:
+            case ConditionType.FOLD:
+                return this.sub_conditions[0].isAlwaysTrue();
+            case ConditionType.SUBJECT:
+            case ConditionType.BODY:
+            case ConditionType.HTML:
+            case ConditionType.RAW:
+            case ConditionType.FROM:
+            case ConditionType.SENDER:
+            case ConditionType.LIST:
+            case ConditionType.TO:
+            case ConditionType.CC:
+            case ConditionType.BCC:
+            case ConditionType.RECEIVER:
+            case ConditionType.REPLY_TO:
+                // Without anchors or lookarounds, matching empty string means matching anywhere in any value
+                return !/[\^$]|\\[bB]|\(\?<?[=!]/.test(this.regexp.source) && this.regexp.test("");
+            default:
+                return false;
+        }
+    }
+
+    // Whether this condition matching a message means the other one matches it too, as far as can be told from
+    // their structures. False negatives are expected.
+    implies(other: Condition): boolean {
+        if (other.isAlwaysTrue() || this.canonical() === other.canonical()) {
+            return true;
+        }
+        if (this.type === ConditionType.REF) {
+            return this.sub_conditions[0].implies(other);
+        }
+        switch (other.type) {
+            case ConditionType.REF:
+                return this.implies(other.sub_conditions[0]);
+            case ConditionType.OR:
+                if (other.sub_conditions.some(c => this.implies(c))) {
+                    return true;
+                }
+                break;
+            case ConditionType.AND:
+                if (other.sub_conditions.every(c => this.implies(c))) {
+                    return true;
+                }
+                break;
+            case ConditionType.NOT:
+                if (this.type === ConditionType.NOT && other.sub_conditions[0].implies(this.sub_conditions[0])) {
+                    return true;
+                }
+                break;
+        }
+        switch (this.type) {
+            case ConditionType.AND:
+                return this.sub_conditions.some(c => c.implies(other));
+            case ConditionType.OR:
+                return this.sub_conditions.length > 0 && this.sub_conditions.every(c => c.implies(other));
+        }
+        return false;
+    }
+
+    // Returns the search term of the pattern, throws the reason if Gmail search can't match it the same way
+    private toGmailTerm(matching_address: boolean): string {
+        if (RE_FLAG_PATTERN.test(this.pattern)) {
+            throw `regexp ${this.pattern} has no Gmail search equivalent`;
+        }
+        if (GLOB_PATTERN.test(this.pattern)) {
+            throw `glob ${this.pattern} has no Gmail search equivalent`;
+        }
+        let value = this.pattern;
+        if (value.startsWith('"') && value.endsWith('"')) {
+            if (!matching_address) {
+                throw `exact matching ${this.pattern} has no Gmail search equivalent`;
+            }
+            value = value.substring(1, value.length - 1);
+        }
+        if (matching_address && value.indexOf('@') < 0) {
+            throw `"${value}" is not a full address, which Gmail search would match as part of addresses`;
+        }
+        if (value.indexOf('"') >= 0) {
+            throw `"${value}" contains quote, which can't be escaped in Gmail search`;
+        }
+        return /^[^\s(){}"]+$/.test(value) ? value : `"${value}"`;
+    }
+
+    // Gmail search query matching the same messages, approximately since Gmail search is case-insensitive and
+    // matches words. Throws the reason if it can't be expressed as a query.
+    toGmailQuery(): string {
+        // Only AND joins multiple terms, which needs grouping by (), while OR is grouped by {}
+        const group = (condition: Condition) => {
+            const query = condition.toGmailQuery();
+            let target = condition;
+            while (target.type === ConditionType.REF) {
+                target = target.sub_conditions[0];
+            }
+            return target.type === ConditionType.AND && target.sub_conditions.length > 1 ? `(${query})` : query;
+        };
+        const type_str = ConditionType[this.type].toLowerCase().replace(/_/g, '-');
+        switch (this.type) {
+            case ConditionType.AND:
+            case ConditionType.OR: {
+                if (this.sub_conditions.length === 0) {
+                    throw `empty (${type_str}) has no Gmail search equivalent`;
+                }
+                const queries = this.sub_conditions.map(group).join(' ');
+                return this.type === ConditionType.AND ? queries : `{${queries}}`;
+            }
+            case ConditionType.NOT:
+                return `-${group(this.sub_conditions[0])}`;
+            case ConditionType.REF:
+                return this.sub_conditions[0].toGmailQuery();
+            case ConditionType.FROM:
+            case ConditionType.SENDER:
+                return `from:${this.toGmailTerm(true)}`;
+            case ConditionType.TO:
+            case ConditionType.CC:
+            case ConditionType.BCC:
+            case ConditionType.LIST:
+                return `${type_str}:${this.toGmailTerm(true)}`;
+            case ConditionType.RECEIVER: {
+                const term = this.toGmailTerm(true);
+                return `{to:${term} cc:${term} bcc:${term} list:${term}}`;
+            }
+            case ConditionType.SUBJECT:
+                return `subject:${this.toGmailTerm(false)}`;
+            case ConditionType.BODY:
+                return this.toGmailTerm(false);
+            case ConditionType.HAS_ATTACHMENT:
+                return 'has:attachment';
+            case ConditionType.ATTACHMENT_NAME:
+                return `filename:${this.toGmailTerm(false)}`;
+            default:
+                throw `(${type_str}) has no Gmail search equivalent`;
+        }
     }
 
     toString(): string {
         const type_str = ConditionType[this.type];
-        const regexp_str = this.regexp ? this.regexp.source : "";
+        if (this.ref_name) {
+            return `(${type_str} ${this.ref_name})`;
+        }
+        let regexp_str = (this.header_name ? this.header_name + " " : "") + (this.regexp ? this.regexp.source : "");
+        if (this.duration_ms !== undefined) {
+            regexp_str = `${this.duration_ms}ms`;
+        } else if (this.date_range) {
+            regexp_str = this.date_range.join(" ");
+        } else if (this.time_values) {
+            regexp_str = Array.from(this.time_values.values()).join(",");
+        } else if (this.comparison) {
+            regexp_str = `${this.comparison.operator} ${this.comparison.value}`;
+        }
         const sub_str = this.sub_conditions ? "\n" + this.sub_conditions.map(c => c.toString()).join("\n") : "";
         return `(${type_str} ${regexp_str} ${sub_str})`;
     }
@@ -270,12 +1079,17 @@ export default class Condition {
             getReplyTo: () => '',
             getSubject: () => '',
             getPlainBody: () => '',
+            getBody: () => '',
             getRawContent: () => '',
+            getDate: () => new Date() as GoogleAppsScript.Base.Date,
+            getAttachments: () => [] as GoogleAppsScript.Gmail.GmailAttachment[],
         } as GoogleAppsScript.Gmail.GmailMessage;
 
-        function test_cond(condition_str: string, message: Partial<GoogleAppsScript.Gmail.GmailMessage>): boolean {
+        function test_cond(
+            condition_str: string, message: Partial<GoogleAppsScript.Gmail.GmailMessage>,
+            time_zone: string = 'UTC'): boolean {
             const condition = new Condition(condition_str);
-            const message_data = new MessageData(Object.assign({}, base_message, message));
+            const message_data = new MessageData(Object.assign({}, base_message, message), time_zone);
             return condition.match(message_data);
         }
 
@@ -324,5 +1138,467 @@ export default class Condition {
                 getTo: () => 'abc+Def@bar.com',
             })).toBe(true)
         })
+
+        const raw_with_headers = [
+            'From: abc@gmail.com',
+            'X-GitHub-Reason: review_requested',
+            'Received: from a.example.com',
+            'Received: from b.example.com',
+            'X-Long-Header: first part',
+            '\tsecond part',
+            '',
+            'X-Not-A-Header: body',
+        ].join('\r\n');
+        it('Matches header value', () => {
+            expect(test_cond(`(header X-GitHub-Reason review_requested)`,
+            {
+                getRawContent: () => raw_with_headers,
+            })).toBe(true)
+        })
+        it('Matches header name case-insensitively', () => {
+            expect(test_cond(`(header x-github-reason /^review/)`,
+            {
+                getRawContent: () => raw_with_headers,
+            })).toBe(true)
+        })
+        it('Does not match missing header', () => {
+            expect(test_cond(`(header X-Priority 1)`,
+            {
+                getRawContent: () => raw_with_headers,
+            })).toBe(false)
+        })
+        it('Matches any occurrence of repeated header', () => {
+            expect(test_cond(`(header Received "from b.example.com")`,
+            {
+                getRawContent: () => raw_with_headers,
+            })).toBe(true)
+        })
+        it('Matches folded header', () => {
+            expect(test_cond(`(header X-Long-Header /first part second part/)`,
+            {
+                getRawContent: () => raw_with_headers,
+            })).toBe(true)
+        })
+        it('Does not match header in body', () => {
+            expect(test_cond(`(header X-Not-A-Header body)`,
+            {
+                getRawContent: () => raw_with_headers,
+            })).toBe(false)
+        })
+        it('Fails header condition without value', () => {
+            expect(() => new Condition(`(header X-Priority)`)).toThrow();
+        })
+        it('Matches regexp containing parentheses', () => {
+            expect(test_cond(`(subject /foo(bar)?$/)`, {getSubject: () => 'foobar'})).toBe(true)
+        })
+        it('Matches exact string containing parentheses', () => {
+            expect(test_cond(`(subject "Re: (urgent) fix")`, {getSubject: () => 'Re: (urgent) fix'})).toBe(true)
+        })
+        it('Matches multiple words keeping spaces', () => {
+            expect(test_cond(`(subject build  failed)`, {getSubject: () => '[CI] build  failed'})).toBe(true)
+        })
+        it('Matches conditions with comments, tabs and newlines', () => {
+            expect(test_cond(`(or ; any of the team
+                \t(from abc@gmail.com) ; alice
+                \t(from def@gmail.com))`, {getFrom: () => 'def@gmail.com'})).toBe(true)
+        })
+        it('Fails with position of invalid sub-condition', () => {
+            try {
+                new Condition(`(and\n  (from abc@gmail.com)\n  (form def@gmail.com))`);
+                expect(true).toBe(false);
+            } catch (e) {
+                expect(e instanceof ConditionParseError).toBe(true);
+                expect((e as ConditionParseError).line).toBe(3);
+                expect((e as ConditionParseError).column).toBe(3);
+            }
+        })
+        it('Fails with unquoted parentheses in value', () => {
+            expect(() => new Condition(`(subject Re: (urgent))`)).toThrow();
+        })
+        it('Fails with non-condition in operator', () => {
+            expect(() => new Condition(`(and abc)`)).toThrow();
+        })
+        it('Matches reply-to address', () => {
+            expect(test_cond(`(reply-to support@corp.com)`,
+            {
+                getFrom: () => 'abc@gmail.com',
+                getReplyTo: () => 'Support <support+ticket-1@corp.com>',
+            })).toBe(true)
+        })
+        it('Does not match reply-to with from address', () => {
+            expect(test_cond(`(reply-to abc@gmail.com)`,
+            {
+                getFrom: () => 'abc@gmail.com',
+            })).toBe(false)
+        })
+        it('Matches reply-to-mismatch when reply-to differs from from', () => {
+            expect(test_cond(`(reply-to-mismatch)`,
+            {
+                getFrom: () => 'Bank <info@bank.com>',
+                getReplyTo: () => 'info@bank-secure.com',
+            })).toBe(true)
+        })
+        it('Does not match reply-to-mismatch when reply-to equals from', () => {
+            expect(test_cond(`(reply-to-mismatch)`,
+            {
+                getFrom: () => 'Bank <Info@Bank.com>',
+                getReplyTo: () => 'info@bank.com',
+            })).toBe(false)
+        })
+        it('Does not match reply-to-mismatch without reply-to', () => {
+            expect(test_cond(`(reply-to-mismatch)`,
+            {
+                getFrom: () => 'Bank <info@bank.com>',
+            })).toBe(false)
+        })
+        it('Fails reply-to-mismatch condition with value', () => {
+            expect(() => new Condition(`(reply-to-mismatch abc@gmail.com)`)).toThrow();
+        })
+
+        const hours_ago = (hours: number) => () =>
+            new Date(Date.now() - hours * 60 * 60 * 1000) as GoogleAppsScript.Base.Date;
+        it('Matches older-than', () => {
+            expect(test_cond(`(older-than 3d)`, {getDate: hours_ago(4 * 24)})).toBe(true)
+        })
+        it('Does not match older-than for recent message', () => {
+            expect(test_cond(`(older-than 3d)`, {getDate: hours_ago(2 * 24)})).toBe(false)
+        })
+        it('Matches newer-than', () => {
+            expect(test_cond(`(newer-than 90m)`, {getDate: hours_ago(1)})).toBe(true)
+        })
+        it('Does not match newer-than for old message', () => {
+            expect(test_cond(`(newer-than 1w)`, {getDate: hours_ago(8 * 24)})).toBe(false)
+        })
+        it('Fails with invalid duration', () => {
+            expect(() => new Condition(`(older-than 3 days)`)).toThrow();
+        })
+
+        // Friday 2020-01-31 23:30 UTC, Saturday 2020-02-01 07:30 in Asia/Shanghai
+        const friday_night = () => new Date(Date.UTC(2020, 0, 31, 23, 30)) as GoogleAppsScript.Base.Date;
+        it('Matches received-between inclusively', () => {
+            expect(test_cond(`(received-between 2020-01-01 2020-01-31)`, {getDate: friday_night})).toBe(true)
+        })
+        it('Matches received-between in time zone', () => {
+            expect(test_cond(`(received-between 2020-01-01 2020-01-31)`,
+                {getDate: friday_night}, 'Asia/Shanghai')).toBe(false)
+        })
+        it('Matches received-after with time', () => {
+            expect(test_cond(`(received-after 2020-01-31T23:30)`, {getDate: friday_night})).toBe(true)
+        })
+        it('Does not match received-before with time', () => {
+            expect(test_cond(`(received-before 2020-01-31T23:29)`, {getDate: friday_night})).toBe(false)
+        })
+        it('Fails with invalid date', () => {
+            expect(() => new Condition(`(received-after 01/31/2020)`)).toThrow();
+        })
+        it('Matches weekday range', () => {
+            expect(test_cond(`(weekday mon-fri)`, {getDate: friday_night})).toBe(true)
+        })
+        it('Matches weekday in time zone', () => {
+            expect(test_cond(`(weekday sat sun)`, {getDate: friday_night}, 'Asia/Shanghai')).toBe(true)
+        })
+        it('Matches wrapping weekday range', () => {
+            expect(test_cond(`(weekday Sat-Mon)`, {getDate: friday_night})).toBe(false)
+        })
+        it('Matches hour-of-day range', () => {
+            expect(test_cond(`(hour-of-day 7-9)`, {getDate: friday_night}, 'Asia/Shanghai')).toBe(true)
+        })
+        it('Does not match hour-of-day range end', () => {
+            expect(test_cond(`(hour-of-day 9-17)`, {getDate: friday_night}, 'Asia/Shanghai')).toBe(false)
+        })
+        it('Matches wrapping hour-of-day range', () => {
+            expect(test_cond(`(hour-of-day 22-6)`, {getDate: friday_night})).toBe(true)
+        })
+        it('Fails with invalid hour', () => {
+            expect(() => new Condition(`(hour-of-day 9-24)`)).toThrow();
+        })
+        it('Fails with invalid weekday', () => {
+            expect(() => new Condition(`(weekday someday)`)).toThrow();
+        })
+
+        const with_attachments = () => [
+            {getName: () => 'Invoice-2020.PDF', getContentType: () => 'application/pdf', getSize: () => 200 * 1024},
+            {getName: () => 'build.zip', getContentType: () => 'application/zip', getSize: () => 6 * 1024 * 1024},
+        ] as GoogleAppsScript.Gmail.GmailAttachment[];
+        it('Matches has-attachment', () => {
+            expect(test_cond(`(has-attachment)`, {getAttachments: with_attachments})).toBe(true)
+        })
+        it('Does not match has-attachment without attachment', () => {
+            expect(test_cond(`(has-attachment)`, {})).toBe(false)
+        })
+        it('Matches attachment-name', () => {
+            expect(test_cond(`(attachment-name /\\.pdf$/i)`, {getAttachments: with_attachments})).toBe(true)
+        })
+        it('Does not match attachment-name', () => {
+            expect(test_cond(`(attachment-name .docx)`, {getAttachments: with_attachments})).toBe(false)
+        })
+        it('Matches attachment-type', () => {
+            expect(test_cond(`(attachment-type application/zip)`, {getAttachments: with_attachments})).toBe(true)
+        })
+        it('Matches attachment-size with unit', () => {
+            expect(test_cond(`(attachment-size > 5MB)`, {getAttachments: with_attachments})).toBe(true)
+        })
+        it('Does not match attachment-size', () => {
+            expect(test_cond(`(attachment-size >= 6.5mb)`, {getAttachments: with_attachments})).toBe(false)
+        })
+        it('Does not match attachment-size without attachment', () => {
+            expect(test_cond(`(attachment-size < 1KB)`, {})).toBe(false)
+        })
+        it('Fails with invalid comparison', () => {
+            expect(() => new Condition(`(attachment-size about 5MB)`)).toThrow();
+        })
+
+        function test_thread_cond(
+            condition_str: string, thread: Partial<GoogleAppsScript.Gmail.GmailThread>, labels: string[] = []): boolean {
+            const condition = new Condition(condition_str);
+            const message_data = new MessageData(Mocks.getMockMessage({}, thread, labels), 'UTC');
+            return condition.match(message_data);
+        }
+
+        it('Matches has-label', () => {
+            expect(test_thread_cond(`(has-label foo/bar)`, {}, ['abc', 'Foo/Bar'])).toBe(true)
+        })
+        it('Matches has-label with nested label', () => {
+            expect(test_thread_cond(`(has-label foo)`, {}, ['foo/bar'])).toBe(true)
+        })
+        it('Does not match has-label with label prefix', () => {
+            expect(test_thread_cond(`(has-label foo)`, {}, ['foobar'])).toBe(false)
+        })
+        it('Does not match has-label exactly (using quotes) with nested label', () => {
+            expect(test_thread_cond(`(has-label "foo")`, {}, ['foo/bar'])).toBe(false)
+        })
+        it('Matches has-label using regexp', () => {
+            expect(test_thread_cond(`(has-label /^todo\\//)`, {}, ['todo/review'])).toBe(true)
+        })
+        it('Matches is-starred', () => {
+            expect(test_thread_cond(`(is-starred)`, {hasStarredMessages: () => true})).toBe(true)
+        })
+        it('Does not match is-unread', () => {
+            expect(test_thread_cond(`(is-unread)`, {isUnread: () => false})).toBe(false)
+        })
+        it('Matches in-inbox', () => {
+            expect(test_thread_cond(`(in-inbox)`, {isInInbox: () => true})).toBe(true)
+        })
+        it('Matches is-important', () => {
+            expect(test_thread_cond(`(not (is-important))`, {isImportant: () => false})).toBe(true)
+        })
+        it('Matches message-count', () => {
+            expect(test_thread_cond(`(message-count > 5)`, {getMessageCount: () => 6})).toBe(true)
+        })
+        it('Does not match message-count', () => {
+            expect(test_thread_cond(`(message-count <= 5)`, {getMessageCount: () => 6})).toBe(false)
+        })
+        it('Fails with non-integer message-count', () => {
+            expect(() => new Condition(`(message-count > 5MB)`)).toThrow();
+        })
+        it('Does not fetch attachments unless asked', () => {
+            expect(test_cond(`(subject abc)`, {
+                getSubject: () => 'abc',
+                getAttachments: () => {
+                    throw 'Should not fetch attachments';
+                },
+            })).toBe(true)
+        })
+        it('Traces evaluated conditions', () => {
+            const condition = new Condition(`(and
+              (from abc@gmail.com)
+              (or (subject /al(ert)s?/) (subject other)))`);
+            const message_data = new MessageData(Object.assign({}, base_message, {
+                getFrom: () => 'Abc <abc+team@gmail.com>',
+                getSubject: () => 'New alerts',
+            }), 'UTC');
+            const trace: ConditionTrace[] = [];
+
+            expect(condition.match(message_data, trace)).toBe(true);
+            expect(trace.length).toBe(1);
+            expect(trace[0].condition).toBe('(and)');
+            const [from_trace, or_trace] = trace[0].children;
+            expect(from_trace.condition).toBe('(from abc@gmail.com)');
+            expect(from_trace.matched_text).toBe('<abc+team@gmail.com>');
+            expect(or_trace.children.length).toBe(1);
+            expect(or_trace.children[0].values).toEqual(['New alerts']);
+            expect(or_trace.children[0].matched_text).toBe('alerts');
+        })
+        it('Traces only conditions evaluated before short circuit', () => {
+            const condition = new Condition(`(and (not (from abc@gmail.com)) (subject alert))`);
+            const message_data = new MessageData(Object.assign({}, base_message, {
+                getFrom: () => 'abc@gmail.com',
+            }), 'UTC');
+            const trace: ConditionTrace[] = [];
+
+            expect(condition.match(message_data, trace)).toBe(false);
+            expect(trace[0].children.length).toBe(1);
+            expect(trace[0].children[0].matched).toBe(false);
+            expect(trace[0].children[0].children[0].matched).toBe(true);
+        })
+        const html = `<p>Hi</p><a href="https://Track.Example.com/open?id=1">x</a>
+            <a href='http://user@example.org:8080/a'>y</a><img src="https://pixel.example.net/p.gif">`;
+        it('Matches html', () => {
+            expect(test_cond(`(html /<img[^>]*pixel/)`, {getBody: () => html})).toBe(true)
+        })
+        it('Does not match html in plain body', () => {
+            expect(test_cond(`(body /<img/)`, {getBody: () => html})).toBe(false)
+        })
+        it('Matches raw content', () => {
+            expect(test_cond(`(raw "Content-Type: text/calendar")`, {
+                getRawContent: () => 'Subject: Meeting\r\n\r\n--b\r\nContent-Type: text/calendar\r\n',
+            })).toBe(false)
+            expect(test_cond(`(raw /^Content-Type: text\/calendar/m)`, {
+                getRawContent: () => 'Subject: Meeting\r\n\r\n--b\r\nContent-Type: text/calendar\r\n',
+            })).toBe(true)
+        })
+        it('Matches link-domain', () => {
+            expect(test_cond(`(link-domain example.org)`, {getBody: () => html})).toBe(true)
+        })
+        it('Matches link-domain with subdomain wildcard', () => {
+            expect(test_cond(`(link-domain *.example.com)`, {getBody: () => html})).toBe(true)
+        })
+        it('Does not match link-domain of subdomain without wildcard', () => {
+            expect(test_cond(`(link-domain example.com)`, {getBody: () => html})).toBe(false)
+        })
+        it('Does not match link-domain of images', () => {
+            expect(test_cond(`(link-domain *.example.net)`, {getBody: () => html})).toBe(false)
+        })
+        it('Matches only the beginning of long html', () => {
+            const long_html = 'a'.repeat(70000) + '<a href="https://late.example.com">';
+            expect(test_cond(`(html late)`, {getBody: () => long_html})).toBe(false)
+            expect(test_cond(`(link-domain late.example.com)`, {getBody: () => long_html})).toBe(false)
+        })
+        it('Does not fetch html unless asked', () => {
+            expect(test_cond(`(body abc)`, {
+                getPlainBody: () => 'abc',
+                getBody: () => {
+                    throw 'Should not fetch html';
+                },
+            })).toBe(true)
+        })
+        it('Matches from-domain', () => {
+            expect(test_cond(`(from-domain Example.com)`, {getFrom: () => 'Abc <abc+tag@EXAMPLE.COM>'})).toBe(true)
+        })
+        it('Does not match from-domain of subdomain without wildcard', () => {
+            expect(test_cond(`(from-domain example.com)`, {getFrom: () => 'abc@mail.example.com'})).toBe(false)
+        })
+        it('Matches from-domain of domain and subdomain with wildcard', () => {
+            expect(test_cond(`(from-domain *.example.com)`, {getFrom: () => 'abc@example.com'})).toBe(true)
+            expect(test_cond(`(from-domain *.example.com)`, {getFrom: () => 'abc@a.mail.example.com'})).toBe(true)
+        })
+        it('Does not match from-domain with suffix only', () => {
+            expect(test_cond(`(from-domain *.example.com)`, {getFrom: () => 'abc@badexample.com'})).toBe(false)
+        })
+        it('Does not match from-domain in display name', () => {
+            expect(test_cond(`(from-domain example.com)`, {getFrom: () => '"abc@example.com" <abc@evil.com>'}))
+                .toBe(false)
+        })
+        it('Matches to-domain of any address', () => {
+            expect(test_cond(`(to-domain corp.com)`, {getTo: () => 'abc@gmail.com, Def <def@corp.com>'})).toBe(true)
+        })
+        it('Matches receiver-domain of cc', () => {
+            expect(test_cond(`(receiver-domain *.corp.com)`, {getCc: () => 'def@eng.corp.com'})).toBe(true)
+        })
+        it('Matches list-domain', () => {
+            expect(test_cond(`(list-domain lists.corp.com)`, {
+                getRawContent: () => 'Mailing-list: list team@lists.corp.com; contact team-owner@lists.corp.com',
+            })).toBe(true)
+        })
+        it('Fails with invalid domain', () => {
+            expect(() => new Condition(`(from-domain *.com)`)).toThrow();
+            expect(() => new Condition(`(from-domain abc@example.com)`)).toThrow();
+        })
+        it('Matches size of raw message', () => {
+            const raw = 'Subject: abc\r\n\r\n' + 'a'.repeat(2048);
+            expect(test_cond(`(size > 2KB)`, {getRawContent: () => raw})).toBe(true)
+            expect(test_cond(`(size > 1MB)`, {getRawContent: () => raw})).toBe(false)
+        })
+        it('Matches size of raw message in bytes', () => {
+            const raw = 'Subject: abc\r\n\r\n' + 'é'.repeat(700) + '中'.repeat(700) + '😀'.repeat(10);
+            expect(test_cond(`(size = ${16 + 700 * 2 + 700 * 3 + 10 * 4})`, {getRawContent: () => raw})).toBe(true)
+            expect(test_cond(`(size > 3KB)`, {getRawContent: () => raw})).toBe(true)
+            expect(test_cond(`(size = 19)`, {getRawContent: () => 'Subject: abc\r\n\r\n\ud800'})).toBe(true)
+        })
+        it('Matches recipient-count ignoring empty fields', () => {
+            const message = {getTo: () => 'a@corp.com, b@corp.com', getCc: () => 'c@corp.com', getBcc: () => ''};
+            expect(test_cond(`(recipient-count = 3)`, message)).toBe(true)
+            expect(test_cond(`(recipient-count >= 4)`, message)).toBe(false)
+        })
+        it('Matches cc-count', () => {
+            expect(test_cond(`(cc-count > 1)`, {getCc: () => 'a@corp.com, b@corp.com'})).toBe(true)
+            expect(test_cond(`(cc-count != 0)`, {})).toBe(false)
+        })
+        it('Matches body-length without surrounding whitespace', () => {
+            expect(test_cond(`(body-length < 10)`, {getPlainBody: () => '  Thanks!\n\n'})).toBe(true)
+            expect(test_cond(`(body-length <= 200)`, {getPlainBody: () => 'a'.repeat(201)})).toBe(false)
+        })
+        it('Fails with non-integer count', () => {
+            expect(() => new Condition(`(recipient-count > 2.5)`)).toThrow();
+            expect(() => new Condition(`(body-length 200)`)).toThrow();
+        })
+        it('Matches glob of whole value', () => {
+            expect(test_cond(`(subject 'invoice #*')`, {getSubject: () => 'Invoice #123'})).toBe(true)
+            expect(test_cond(`(subject 'invoice #*')`, {getSubject: () => 'Re: Invoice #123'})).toBe(false)
+            expect(test_cond(`(subject 'Weekly ? report')`, {getSubject: () => 'Weekly X report'})).toBe(true)
+            expect(test_cond(`(subject 'a.b')`, {getSubject: () => 'axb'})).toBe(false)
+        })
+        it('Matches single quoted text without wildcards as is', () => {
+            expect(test_cond(`(subject 'foo')`, {getSubject: () => `Re: 'foo' bar`})).toBe(true)
+            expect(test_cond(`(subject 'foo')`, {getSubject: () => 'foo'})).toBe(false)
+            expect(test_cond(`(subject 'foo')`, {getSubject: () => `'FOO'`})).toBe(false)
+        })
+        it('Matches glob of whole address', () => {
+            expect(test_cond(`(from '*-noreply@*.com')`, {getFrom: () => 'Shop <shop-noreply@mail.com>'})).toBe(true)
+            expect(test_cond(`(from '*-noreply@*.com')`, {getFrom: () => 'shop-noreply@mail.com.cn'})).toBe(false)
+            expect(test_cond(`(from-domain '*.co?')`, {getFrom: () => 'abc@mail.com'})).toBe(true)
+        })
+        it('Matches folded text', () => {
+            expect(test_cond(`(subject Rechnung)`, {getSubject: () => 'RECHNUNG'})).toBe(false)
+            expect(test_cond(`(fold (subject Rechnung))`, {getSubject: () => 'RECHNUNG'})).toBe(true)
+            expect(test_cond(`(fold (subject resume))`, {getSubject: () => 'Your Résumé'})).toBe(true)
+            expect(test_cond(`(fold (subject "Résumé"))`, {getSubject: () => 'RESUME'})).toBe(true)
+            expect(test_cond(`(fold (subject strasse))`, {getSubject: () => 'Hauptstraße'})).toBe(true)
+            expect(test_cond(`(fold (subject ＩＮＶＯＩＣＥ))`, {getSubject: () => 'invoice'})).toBe(true)
+            expect(test_cond(`(fold (subject 請求書))`, {getSubject: () => '請求書のお知らせ'})).toBe(true)
+            expect(test_cond(`(fold (body ｶﾞｽ))`, {getPlainBody: () => 'ガス料金'})).toBe(true)
+        })
+        it('Matches folded text in nested conditions and regexps', () => {
+            expect(test_cond(`(fold (and (subject /^re: facture/) (not (from /café/))))`,
+                {getSubject: () => 'RE: Facture', getFrom: () => 'Café <bob@example.com>'})).toBe(false)
+            expect(test_cond(`(fold (and (subject /^re: facture/) (not (from /café/))))`,
+                {getSubject: () => 'RE: Facture', getFrom: () => 'bob@example.com'})).toBe(true)
+            expect(test_cond(`(fold (or (subject /\\bcafé\\b/) (body x)))`, {getSubject: () => 'CAFE'})).toBe(true)
+            expect(test_cond(`(fold (subject /a＊/))`, {getSubject: () => 'aaa'})).toBe(false)
+            expect(test_cond(`(fold (subject /a＊/))`, {getSubject: () => 'a*'})).toBe(true)
+        })
+        it('Evaluates identical leaves once per message', () => {
+            let fetch_count = 0;
+            const message_data = new MessageData(Object.assign({}, base_message, {
+                getBody: () => {
+                    fetch_count++;
+                    return '<a href="https://abc.com">';
+                },
+            }), 'UTC');
+            expect(new Condition(`(and (link-domain abc.com) (html  /abc/))`).match(message_data)).toBe(true)
+            expect(new Condition(`(or (subject xyz) (html /abc/))`).match(message_data)).toBe(true)
+            expect(fetch_count).toBe(1)
+            expect(message_data.leaf_results.size).toBe(3)
+        })
+        it('Finds address keys of conditions', () => {
+            expect(new Condition(`(and (from Abc+x@gmail.com) (or (to "a@corp.com") (list b@corp.com)))`)
+                .getAddressKeys()).toEqual(['from:abc@gmail.com'])
+            expect(new Condition(`(or (sender a@corp.com) (cc b@corp.com))`).getAddressKeys())
+                .toEqual(['from:a@corp.com', 'receiver:b@corp.com'])
+            expect(new Condition(`(or (from a@corp.com) (from /b@corp.com/))`).getAddressKeys()).toBe(undefined)
+            expect(new Condition(`(not (from a@corp.com))`).getAddressKeys()).toBe(undefined)
+        })
+        it('Finds groups captured by subject regexp', () => {
+            const message_data = new MessageData(Object.assign({}, base_message, {
+                getSubject: () => 'Re: Ticket #1234 closed',
+            }), 'UTC');
+            const captures = (condition_str: string) => new Condition(condition_str).getSubjectCaptures(message_data);
+
+            expect(captures(`(and (from abc@gmail.com) (or (subject /^x/) (subject /ticket #(\\d+)( open)?/i)))`))
+                .toEqual(['Ticket #1234', '1234', ''])
+            expect(captures(`(fold (subject /#(\\d+) clos(é)/))`)).toEqual(['#1234 close', '1234', 'e'])
+            expect(captures(`(not (subject /#(\\d+)/))`)).toBe(undefined)
+            expect(captures(`(subject /#(\\d+) open/)`)).toBe(undefined)
+        })
     }
 }
@@ -0,0 +1,333 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export enum TokenType {LEFT_PAREN, RIGHT_PAREN, ATOM, STRING, REGEXP}
+
+export interface Token {
+    readonly type: TokenType;
+    // Raw text in source
+    readonly text: string;
+    // Unescaped content for STRING, otherwise same as text
+    readonly value: string;
+    // Offsets in source
+    readonly start: number;
+    readonly end: number;
+    // 1-based position in source
+    readonly line: number;
+    readonly column: number;
+}
+
+export interface SList {
+    readonly items: SExpression[];
+    readonly open: Token;
+    readonly close: Token;
+    // Raw text in source, including parentheses
+    readonly text: string;
+}
+
+export type SExpression = Token | SList;
+
+/**
+ * Error in condition, pointing to where it is in the sheet cell.
+ */
+export class ConditionParseError extends Error {
+    public readonly reason: string;
+    public readonly line: number;
+    public readonly column: number;
+    // Sheet and 1-based row of the cell containing the condition, if known
+    public readonly sheet: string | undefined;
+    public readonly row: number | undefined;
+
+    constructor(reason: string, line: number, column: number, sheet?: string, row?: number) {
+        const location = sheet === undefined ? '' : `sheet '${sheet}' row ${row}, `;
+        super(`Condition error at ${location}line ${line}, column ${column}: ${reason}`);
+        // Set prototype explicitly for TypeScript Breaking-Changes
+        Object.setPrototypeOf(this, ConditionParseError.prototype);
+        this.name = 'ConditionParseError';
+        this.reason = reason;
+        this.line = line;
+        this.column = column;
+        this.sheet = sheet;
+        this.row = row;
+    }
+
+    // Returns the error with its cell, unless it's already known
+    withLocation(sheet: string, row: number): ConditionParseError {
+        if (this.sheet !== undefined) {
+            return this;
+        }
+        return new ConditionParseError(this.reason, this.line, this.column, sheet, row);
+    }
+}
+
+/**
+ * Tokenizer and parser of condition S-expressions.
+ *
+ * Tokens:
+ * - "(" and ")"
+ * - STRING: "..." with backslash escaping, e.g. "say \"hi\"", "\n" and "\t" are newline and tab
+ * - REGEXP: /.../flags, may contain spaces and parentheses, e.g. /foo(bar)? baz/i
+ * - ATOM: anything else until whitespace or parenthesis
+ * Whitespace including newlines and tabs separates tokens. A ";" starting a token comments out the rest of the line.
+ */
+export class ConditionParser {
+
+    public static isList(expression: SExpression): expression is SList {
+        return 'items' in expression;
+    }
+
+    private static isDelimiter(char: string | undefined): boolean {
+        return char === undefined || /[\s()]/.test(char);
+    }
+
+    // Returns end of regexp token starting at start, or -1 if it's not a regexp
+    private static scanRegExp(source: string, start: number): number {
+        let in_class = false;
+        let index = start + 1;
+        for (; index < source.length; index++) {
+            const char = source[index];
+            if (char === '\n') {
+                return -1;
+            } else if (char === '\\') {
+                index++;
+            } else if (char === '[') {
+                in_class = true;
+            } else if (char === ']') {
+                in_class = false;
+            } else if (char === '/' && !in_class) {
+                break;
+            }
+        }
+        if (index >= source.length) {
+            return -1;
+        }
+        const flags = source.substring(index + 1).match(/^[a-z]*/)![0];
+        if (!/^[gimsuy]*$/.test(flags) || !ConditionParser.isDelimiter(source[index + 1 + flags.length])) {
+            return -1;
+        }
+        return index + 1 + flags.length;
+    }
+
+    public static tokenize(source: string): Token[] {
+        const tokens: Token[] = [];
+        let line = 1, line_start = 0;
+        let index = 0;
+
+        const error = (reason: string, at: number) => {
+            // Token never spans lines except strings, where the error points at its start
+            return new ConditionParseError(reason, line, at - line_start + 1);
+        };
+        const push = (type: TokenType, start: number, end: number, value?: string) => {
+            const text = source.substring(start, end);
+            tokens.push({
+                type, text, value: value === undefined ? text : value,
+                start, end, line, column: start - line_start + 1,
+            });
+        };
+
+        while (index < source.length) {
+            const char = source[index];
+            if (char === '\n') {
+                index++;
+                line++;
+                line_start = index;
+            } else if (/\s/.test(char)) {
+                index++;
+            } else if (char === ';') {
+                while (index < source.length && source[index] !== '\n') {
+                    index++;
+                }
+            } else if (char === '(') {
+                push(TokenType.LEFT_PAREN, index, index + 1);
+                index++;
+            } else if (char === ')') {
+                push(TokenType.RIGHT_PAREN, index, index + 1);
+                index++;
+            } else if (char === '"') {
+                const start = index;
+                let value = '';
+                index++;
+                while (index < source.length && source[index] !== '"') {
+                    if (source[index] === '\\') {
+                        index++;
+                        if (index >= source.length) {
+                            break;
+                        }
+                        const escaped = source[index];
+                        value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+                    } else {
+                        value += source[index];
+                    }
+                    index++;
+                }
+                if (index >= source.length) {
+                    throw error('Unterminated string', start);
+                }
+                index++;
+                push(TokenType.STRING, start, index, value);
+                // Strings may span lines
+                const last_newline = source.lastIndexOf('\n', index - 1);
+                if (last_newline >= start) {
+                    line += source.substring(start, index).split('\n').length - 1;
+                    line_start = last_newline + 1;
+                }
+            } else {
+                const start = index;
+                const regexp_end = char === '/' ? ConditionParser.scanRegExp(source, start) : -1;
+                if (regexp_end > 0) {
+                    index = regexp_end;
+                    push(TokenType.REGEXP, start, index);
+                } else {
+                    while (!ConditionParser.isDelimiter(source[index])) {
+                        index++;
+                    }
+                    push(TokenType.ATOM, start, index);
+                }
+            }
+        }
+        return tokens;
+    }
+
+    // Parses exactly one list from source
+    public static parse(source: string): SList {
+        const tokens = ConditionParser.tokenize(source);
+        if (tokens.length === 0) {
+            throw new ConditionParseError('Condition is empty', 1, 1);
+        }
+        let index = 0;
+
+        const parseExpression = (): SExpression => {
+            const token = tokens[index++];
+            if (token.type === TokenType.RIGHT_PAREN) {
+                throw new ConditionParseError('Unexpected ")"', token.line, token.column);
+            }
+            if (token.type !== TokenType.LEFT_PAREN) {
+                return token;
+            }
+            const items: SExpression[] = [];
+            while (index < tokens.length && tokens[index].type !== TokenType.RIGHT_PAREN) {
+                items.push(parseExpression());
+            }
+            if (index >= tokens.length) {
+                throw new ConditionParseError('Missing ")" for this "("', token.line, token.column);
+            }
+            const close = tokens[index++];
+            return {items, open: token, close, text: source.substring(token.start, close.end)};
+        };
+
+        const first = tokens[0];
+        if (first.type !== TokenType.LEFT_PAREN) {
+            throw new ConditionParseError('Condition should be surrounded by ()', first.line, first.column);
+        }
+        const result = parseExpression() as SList;
+        if (index < tokens.length) {
+            const extra = tokens[index];
+            const reason = extra.type === TokenType.RIGHT_PAREN ?
+                'Unexpected ")"' : `Unexpected "${extra.text}" after the end of condition`;
+            throw new ConditionParseError(reason, extra.line, extra.column);
+        }
+        return result;
+    }
+
+    public static testConditionParser(it: Function, expect: Function) {
+        function token_types(source: string): TokenType[] {
+            return ConditionParser.tokenize(source).map(token => token.type);
+        }
+
+        function parse_error(source: string): ConditionParseError {
+            try {
+                ConditionParser.parse(source);
+            } catch (e) {
+                if (e instanceof ConditionParseError) {
+                    return e;
+                }
+                throw e;
+            }
+            throw new Error(`Expected parse error for ${source}`);
+        }
+
+        it('Tokenizes atoms, strings and regexps', () => {
+            expect(token_types('(subject "a b" /c d/i e)')).toEqual([
+                TokenType.LEFT_PAREN, TokenType.ATOM, TokenType.STRING, TokenType.REGEXP, TokenType.ATOM,
+                TokenType.RIGHT_PAREN]);
+        })
+        it('Tokenizes regexp containing parentheses', () => {
+            const tokens = ConditionParser.tokenize('(subject /foo(bar)?/)');
+            expect(tokens[2].text).toBe('/foo(bar)?/');
+            expect(tokens.length).toBe(4);
+        })
+        it('Tokenizes regexp containing slash in class and escaped slash', () => {
+            const tokens = ConditionParser.tokenize('(subject /a[/]b\\/c/g)');
+            expect(tokens[2].text).toBe('/a[/]b\\/c/g');
+        })
+        it('Tokenizes atom starting with slash as atom', () => {
+            const tokens = ConditionParser.tokenize('(subject /r/programming)');
+            expect(tokens[2].type).toBe(TokenType.ATOM);
+            expect(tokens[2].text).toBe('/r/programming');
+        })
+        it('Tokenizes string with escaped characters and parenthesis', () => {
+            const tokens = ConditionParser.tokenize('(subject "a \\"quoted\\" (b)\\\\")');
+            expect(tokens[2].value).toBe('a "quoted" (b)\\');
+        })
+        it('Skips comments', () => {
+            expect(token_types('(or ; comment (from a)\n\t(from b))')).toEqual([
+                TokenType.LEFT_PAREN, TokenType.ATOM, TokenType.LEFT_PAREN, TokenType.ATOM, TokenType.ATOM,
+                TokenType.RIGHT_PAREN, TokenType.RIGHT_PAREN]);
+        })
+        it('Keeps semicolon inside atom', () => {
+            expect(ConditionParser.tokenize('(subject a;b)')[2].text).toBe('a;b');
+        })
+        it('Tracks line and column', () => {
+            const tokens = ConditionParser.tokenize('(and\n  (from a)\n\t(from "x\ny") z)');
+            const last = tokens[tokens.length - 2];
+            expect(last.text).toBe('z');
+            expect(last.line).toBe(4);
+            expect(last.column).toBe(5);
+        })
+        it('Parses nested lists', () => {
+            const list = ConditionParser.parse('(and (from a) (or (to b) (to c)))');
+            expect(list.items.length).toBe(3);
+            expect(ConditionParser.isList(list.items[2])).toBe(true);
+            expect((list.items[2] as SList).text).toBe('(or (to b) (to c))');
+        })
+        it('Reports missing close parenthesis at its open parenthesis', () => {
+            const error = parse_error('(and\n  (from a)\n  (from b)');
+            expect(error.line).toBe(1);
+            expect(error.column).toBe(1);
+        })
+        it('Reports unexpected close parenthesis', () => {
+            const error = parse_error('(from a))');
+            expect(error.line).toBe(1);
+            expect(error.column).toBe(9);
+        })
+        it('Reports unterminated string', () => {
+            const error = parse_error('(and\n (subject "abc))');
+            expect(error.line).toBe(2);
+            expect(error.column).toBe(11);
+        })
+        it('Reports condition not surrounded by parenthesis', () => {
+            expect(parse_error('from a').column).toBe(1);
+        })
+        it('Reports empty condition', () => {
+            expect(parse_error(' ; nothing').line).toBe(1);
+        })
+        it('Adds location to error', () => {
+            const error = parse_error('(from a))').withLocation('rules', 3);
+            expect(error.row).toBe(3);
+            expect(error.message).toBe(`Condition error at sheet 'rules' row 3, line 1, column 9: Unexpected ")"`);
+        })
+    }
+}
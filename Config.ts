@@ -16,6 +16,12 @@
 
 import Utils from './utils';
 
+// How conflicting actions of rules matching a thread are resolved, see ThreadAction.mergeFrom
+export enum MergePolicy {LAST_WINS, FIRST_WINS, SAFEST, PRIORITY}
+
+// How threads in digest email are grouped, see Digest
+export enum DigestGroupType {LABEL, SENDER, NONE}
+
 export interface MutableConfig {
     unprocessed_label: string;
     processed_label: string;
@@ -24,7 +30,14 @@ export interface MutableConfig {
     hour_of_day_to_run_sanity_checking: number;
     go_link: string;
     max_threads: number;
+    max_retention_threads: number;
     auto_labeling_parent_label: string;
+    muted_label: string;
+    forwarded_label: string;
+    auto_replied_label: string;
+    merge_policy: MergePolicy;
+    digest_hour_of_day: number;
+    digest_group_by: DigestGroupType;
 }
 
 export class Config implements Readonly<MutableConfig> {
@@ -35,12 +48,28 @@ export class Config implements Readonly<MutableConfig> {
     public readonly hour_of_day_to_run_sanity_checking: number;
     public readonly go_link: string;
     public readonly max_threads: number;
+    // Threads cleaned up by retention in each run, see Retention
+    public readonly max_retention_threads: number;
     public readonly auto_labeling_parent_label: string;
+    // Label marking muted threads, since Apps Script can't mute threads. Muting is disabled if it's empty.
+    public readonly muted_label: string;
+    // Labels marking threads already forwarded or replied, so that each thread is sent at most once
+    public readonly forwarded_label: string;
+    public readonly auto_replied_label: string;
+    public readonly merge_policy: MergePolicy;
+    // Digest is sent with sanity checking if it's -1, or by its own trigger at the hour otherwise
+    public readonly digest_hour_of_day: number;
+    public readonly digest_group_by: DigestGroupType;
 
     private static validate(config: Config) {
         Utils.assert(config.unprocessed_label.length > 0, "unprocessed_label can't be empty");
         Utils.assert(config.processing_frequency_in_minutes >= 5, "processing_frequency_in_minutes can't be smaller than 5");
         Utils.assert(config.max_threads <= 100, "max_threads can't be greater than 100");
+        Utils.assert(config.max_retention_threads > 0, "max_retention_threads should be positive");
+        Utils.assert(config.digest_hour_of_day >= -1 && config.digest_hour_of_day < 24,
+            "digest_hour_of_day should be -1 or an hour of day");
+        Utils.assert(config.forwarded_label.length > 0, "forwarded_label can't be empty");
+        Utils.assert(config.auto_replied_label.length > 0, "auto_replied_label can't be empty");
     }
 
     public static getConfig(): Config {
@@ -52,7 +81,14 @@ export class Config implements Readonly<MutableConfig> {
             hour_of_day_to_run_sanity_checking: 0,
             go_link: "",
             max_threads: 50,
+            max_retention_threads: 500,
             auto_labeling_parent_label: "",
+            muted_label: "",
+            forwarded_label: "forwarded",
+            auto_replied_label: "auto_replied",
+            merge_policy: MergePolicy.LAST_WINS,
+            digest_hour_of_day: -1,
+            digest_group_by: DigestGroupType.LABEL,
         };
 
         const values = Utils.withTimer("GetConfigValues", () => {
@@ -74,7 +110,9 @@ export class Config implements Readonly<MutableConfig> {
             switch (name) {
                 case "processing_frequency_in_minutes":
                 case "hour_of_day_to_run_sanity_checking":
-                case "max_threads": {
+                case "max_threads":
+                case "max_retention_threads":
+                case "digest_hour_of_day": {
                     const result = parseInt(value);
                     if (isNaN(result)) {
                         throw `Unrecognized config value of ${name}`;
@@ -86,10 +124,29 @@ export class Config implements Readonly<MutableConfig> {
                 case "processed_label":
                 case "processing_failed_label":
                 case "go_link":
-                case "auto_labeling_parent_label": {
+                case "auto_labeling_parent_label":
+                case "muted_label":
+                case "forwarded_label":
+                case "auto_replied_label": {
                     config[name] = value;
                     break;
                 }
+                case "merge_policy": {
+                    const result = MergePolicy[value.toUpperCase().replace(/-/g, '_') as keyof typeof MergePolicy];
+                    if (result === undefined) {
+                        throw `Unrecognized config value of ${name}`;
+                    }
+                    config[name] = result;
+                    break;
+                }
+                case "digest_group_by": {
+                    const result = DigestGroupType[value.toUpperCase() as keyof typeof DigestGroupType];
+                    if (result === undefined) {
+                        throw `Unrecognized config value of ${name}`;
+                    }
+                    config[name] = result;
+                    break;
+                }
                 default: {
                     console.error(`Invalid config: ${name}`);
                 }
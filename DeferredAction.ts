@@ -0,0 +1,239 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Utils from './utils';
+import Mocks from './Mocks';
+import Condition from './Condition';
+import {NamedConditions} from './NamedConditions';
+import {SessionData} from './SessionData';
+import {ThreadData} from './ThreadData';
+import ThreadAction, {BooleanActionType, InboxActionType} from './ThreadAction';
+
+/**
+ * Action applied to a thread some time after a rule matches it, if the condition still matches then.
+ *
+ * Syntax: DURATION ACTION [CONDITION_EXP], e.g. "3d inbox (is-unread)" or "30d trash", where
+ * DURATION is like 12h, 3d or 2w, and
+ * ACTION := inbox | archive | trash | read | unread | important | unimportant | star | unstar
+ * CONDITION_EXP is evaluated against the latest message when the action is due.
+ *
+ * Scheduled actions are kept in the "deferred_actions" sheet, and applied by the daily sanity checking.
+ */
+export class DeferredAction {
+
+    private static SHEET_NAME = 'deferred_actions';
+    private static HEADERS = ['due', 'thread_id', 'deferred_action', 'subject'];
+
+    private static ACTIONS: { [name: string]: (action: ThreadAction) => void } = {
+        inbox: action => action.move_to = InboxActionType.INBOX,
+        archive: action => action.move_to = InboxActionType.ARCHIVE,
+        trash: action => action.move_to = InboxActionType.TRASH,
+        read: action => action.read = BooleanActionType.ENABLE,
+        unread: action => action.read = BooleanActionType.DISABLE,
+        important: action => action.important = BooleanActionType.ENABLE,
+        unimportant: action => action.important = BooleanActionType.DISABLE,
+        star: action => action.star = BooleanActionType.ENABLE,
+        unstar: action => action.star = BooleanActionType.DISABLE,
+    };
+
+    // As in rule, identifying the action of a thread in schedule
+    public readonly source: string;
+    public readonly delay_ms: number;
+    public readonly thread_action: Readonly<ThreadAction>;
+    private readonly condition: Condition | undefined;
+
+    constructor(str: string, named_conditions: NamedConditions = new NamedConditions()) {
+        this.source = str.trim().replace(/\s+/g, ' ');
+        const match = this.source.match(/^(\S+) (\S+)(?: (.*))?$/);
+        Utils.assert(match !== null, `Deferred action "${this.source}" should be like "3d inbox (is-unread)"`);
+        const [/* ignored */, delay_str, action_str, condition_str] = match!;
+        this.delay_ms = Condition.parseDuration(delay_str, this.source);
+        const set_action = DeferredAction.ACTIONS[action_str.toLowerCase()];
+        Utils.assert(set_action !== undefined, `Unexpected action ${action_str} in deferred action "${this.source}"`);
+        const thread_action = new ThreadAction();
+        set_action(thread_action);
+        this.thread_action = thread_action;
+        this.condition = condition_str === undefined ? undefined : new Condition(condition_str, named_conditions);
+    }
+
+    // Whether the action still applies to the thread
+    matches(thread_data: ThreadData): boolean {
+        if (this.condition === undefined) {
+            return true;
+        }
+        const messages = thread_data.message_data_list;
+        return this.condition.match(messages[messages.length - 1]);
+    }
+
+    toString() {
+        return this.source;
+    }
+
+    // Replaces rows of the same thread and deferred action, so that it's due after the latest match
+    private static mergeSchedule(rows: string[][], new_rows: string[][]): string[][] {
+        const key = (row: string[]) => `${row[1]} ${row[2]}`;
+        const new_keys = new Set(new_rows.map(key));
+        return rows.filter(row => !new_keys.has(key(row))).concat(new_rows);
+    }
+
+    // Splits rows into the due ones up to max_count and the others
+    private static splitDueRows(rows: string[][], now: Date, max_count: number): [string[][], string[][]] {
+        const due_rows: string[][] = [], remaining_rows: string[][] = [];
+        for (const row of rows) {
+            if (due_rows.length < max_count && new Date(row[0]).getTime() <= now.getTime()) {
+                due_rows.push(row);
+            } else {
+                remaining_rows.push(row);
+            }
+        }
+        return [due_rows, remaining_rows];
+    }
+
+    private static getSheet(): GoogleAppsScript.Spreadsheet.Sheet {
+        const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+        let sheet = spreadsheet.getSheetByName(DeferredAction.SHEET_NAME);
+        if (sheet === null) {
+            sheet = spreadsheet.insertSheet(DeferredAction.SHEET_NAME);
+            sheet.getRange(1, 1, 1, DeferredAction.HEADERS.length).setValues([DeferredAction.HEADERS]);
+        }
+        return sheet;
+    }
+
+    private static readRows(sheet: GoogleAppsScript.Spreadsheet.Sheet): string[][] {
+        if (sheet.getLastRow() < 2) {
+            return [];
+        }
+        return sheet.getRange(2, 1, sheet.getLastRow() - 1, DeferredAction.HEADERS.length).getDisplayValues();
+    }
+
+    private static writeRows(sheet: GoogleAppsScript.Spreadsheet.Sheet, rows: string[][]) {
+        if (sheet.getLastRow() >= 2) {
+            sheet.getRange(2, 1, sheet.getLastRow() - 1, DeferredAction.HEADERS.length).clearContent();
+        }
+        if (rows.length > 0) {
+            const range = sheet.getRange(2, 1, rows.length, DeferredAction.HEADERS.length);
+            // Keep due as text, instead of letting Sheets convert it into its own date
+            range.setNumberFormat('@');
+            range.setValues(rows);
+        }
+    }
+
+    // Schedules deferred actions of threads, due after their delays since processing start time
+    public static schedule(
+        processing_start_time: Date, entries: [GoogleAppsScript.Gmail.GmailThread, DeferredAction][]) {
+        if (entries.length === 0) {
+            return;
+        }
+        const new_rows = entries.map(([thread, deferred_action]) => [
+            new Date(processing_start_time.getTime() + deferred_action.delay_ms).toISOString(),
+            thread.getId(),
+            deferred_action.source,
+            thread.getFirstMessageSubject(),
+        ]);
+        const sheet = DeferredAction.getSheet();
+        DeferredAction.writeRows(sheet, DeferredAction.mergeSchedule(DeferredAction.readRows(sheet), new_rows));
+        Logger.log(`Scheduled ${new_rows.length} deferred actions.`);
+    }
+
+    // Applies due actions whose conditions still match, up to max_threads of config
+    public static applyDueActions() {
+        const session_data = new SessionData();
+        const named_conditions = NamedConditions.getNamedConditions();
+        const sheet = DeferredAction.getSheet();
+        const [due_rows, remaining_rows] = DeferredAction.splitDueRows(
+            DeferredAction.readRows(sheet), session_data.processing_start_time, session_data.config.max_threads);
+
+        const all_thread_data: ThreadData[] = [];
+        for (const [/* due */, thread_id, source, subject] of due_rows) {
+            try {
+                const thread = GmailApp.getThreadById(thread_id);
+                if (thread === null) {
+                    Logger.log(`Thread "${subject}" of deferred action "${source}" is deleted.`);
+                    continue;
+                }
+                const deferred_action = new DeferredAction(source, named_conditions);
+                const thread_data = new ThreadData(session_data, thread);
+                if (deferred_action.matches(thread_data)) {
+                    thread_data.thread_action.mergeFrom(deferred_action.thread_action);
+                    all_thread_data.push(thread_data);
+                } else {
+                    Logger.log(`Deferred action "${source}" no longer applies to thread "${subject}".`);
+                }
+            } catch (e) {
+                // Rules may have changed since it was scheduled, don't retry it forever
+                Logger.log(`Dropped deferred action "${source}" of thread "${subject}": ${e}`);
+            }
+        }
+        Utils.withTimer("applyDeferredActions", () => ThreadData.applyActions(session_data, all_thread_data));
+        DeferredAction.writeRows(sheet, remaining_rows);
+        Logger.log(`Applied ${all_thread_data.length} out of ${due_rows.length} due deferred actions.`);
+    }
+
+    public static testDeferredActions(it: Function, expect: Function) {
+        it('Parses deferred action', () => {
+            const deferred_action = new DeferredAction(' 3d  Inbox (is-unread)');
+            expect(deferred_action.source).toBe('3d Inbox (is-unread)');
+            expect(deferred_action.delay_ms).toBe(3 * 24 * 60 * 60 * 1000);
+            expect(deferred_action.thread_action.move_to).toBe(InboxActionType.INBOX);
+        })
+        it('Parses deferred action without condition', () => {
+            const deferred_action = new DeferredAction('30d trash');
+            expect(deferred_action.thread_action.move_to).toBe(InboxActionType.TRASH);
+            expect(deferred_action.matches(new ThreadData(
+                Mocks.getMockSessionData(), Mocks.getMockThreadOfMessages()))).toBe(true);
+        })
+        it('Fails with invalid deferred action', () => {
+            expect(() => new DeferredAction('inbox')).toThrow();
+            expect(() => new DeferredAction('3 inbox')).toThrow();
+            expect(() => new DeferredAction('3d snooze')).toThrow();
+            expect(() => new DeferredAction('3d inbox (is-unread')).toThrow();
+        })
+        it('Re-checks condition against the latest message', () => {
+            const deferred_action = new DeferredAction('3d inbox (and (is-unread) (last-message (not (from me@gmail.com))))');
+            const thread_data_of = (unread: boolean, last_from: string) => new ThreadData(
+                Mocks.getMockSessionData(), Mocks.getMockThreadOfMessages(
+                    [{getFrom: () => 'abc@gmail.com'}, {getFrom: () => last_from}], {isUnread: () => unread}));
+
+            expect(deferred_action.matches(thread_data_of(true, 'abc@gmail.com'))).toBe(true);
+            expect(deferred_action.matches(thread_data_of(false, 'abc@gmail.com'))).toBe(false);
+            expect(deferred_action.matches(thread_data_of(true, 'me@gmail.com'))).toBe(false);
+        })
+        it('Replaces scheduled action of the same thread', () => {
+            const rows = DeferredAction.mergeSchedule([
+                ['2020-01-01T00:00:00.000Z', 't1', '3d inbox', 'a'],
+                ['2020-01-01T00:00:00.000Z', 't1', '30d trash', 'a'],
+                ['2020-01-01T00:00:00.000Z', 't2', '3d inbox', 'b'],
+            ], [
+                ['2020-01-02T00:00:00.000Z', 't1', '3d inbox', 'a'],
+            ]);
+            expect(rows.map(row => `${row[0]} ${row[1]} ${row[2]}`)).toEqual([
+                '2020-01-01T00:00:00.000Z t1 30d trash',
+                '2020-01-01T00:00:00.000Z t2 3d inbox',
+                '2020-01-02T00:00:00.000Z t1 3d inbox',
+            ]);
+        })
+        it('Splits due rows up to max count', () => {
+            const [due_rows, remaining_rows] = DeferredAction.splitDueRows([
+                ['2020-01-01T00:00:00.000Z', 't1', '3d inbox', 'a'],
+                ['2020-01-03T00:00:00.000Z', 't2', '3d inbox', 'b'],
+                ['2020-01-01T12:00:00.000Z', 't3', '3d inbox', 'c'],
+                ['2020-01-02T00:00:00.000Z', 't4', '3d inbox', 'd'],
+            ], new Date('2020-01-02T00:00:00.000Z'), 2);
+            expect(due_rows.map(row => row[1])).toEqual(['t1', 't3']);
+            expect(remaining_rows.map(row => row[1])).toEqual(['t2', 't4']);
+        })
+    }
+}
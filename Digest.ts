@@ -0,0 +1,265 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Utils from './utils';
+import Mocks from './Mocks';
+import {Config, DigestGroupType} from './Config';
+import {MessageData, ThreadData} from './ThreadData';
+import ThreadAction from './ThreadAction';
+
+export interface DigestEntry {
+    readonly thread_id: string;
+    readonly permalink: string;
+    // Leaf labels added to the thread, without their parent labels
+    readonly labels: string[];
+    readonly from: string;
+    readonly subject: string;
+    readonly snippet: string;
+}
+
+/**
+ * Digest email of threads matched by rules with "digest".
+ *
+ * Threads are recorded in the "digest" sheet when processed, and sent in one email grouped by the "digest_group_by"
+ * config. Recorded threads are removed only after the email is sent, so that they are sent by the next run otherwise.
+ */
+export class Digest {
+
+    private static SHEET_NAME = 'digest';
+    private static HEADERS = ['time', 'thread_id', 'permalink', 'labels', 'from', 'subject', 'snippet'];
+    private static SNIPPET_LENGTH = 200;
+    private static UNLABELED_GROUP = 'Unlabeled';
+
+    static createEntry(thread: GoogleAppsScript.Gmail.GmailThread, thread_action: ThreadAction,
+                       message_data: MessageData): DigestEntry {
+        const label_names = Array.from(thread_action.label_names.values());
+        const snippet = message_data.body.replace(/\s+/g, ' ').trim();
+        return {
+            thread_id: thread.getId(),
+            permalink: thread.getPermalink(),
+            labels: label_names.filter(label => !label_names.some(other => other.startsWith(`${label}/`))),
+            from: message_data.from,
+            subject: message_data.subject,
+            snippet: snippet.length > Digest.SNIPPET_LENGTH
+                ? `${snippet.substring(0, Digest.SNIPPET_LENGTH)}...` : snippet,
+        };
+    }
+
+    // Whether the digest is sent by sanity checking, instead of its own trigger
+    static isSentWithSanityChecking(config: Config): boolean {
+        return config.digest_hour_of_day < 0
+            || config.digest_hour_of_day === config.hour_of_day_to_run_sanity_checking;
+    }
+
+    private static toRow(time: Date, entry: DigestEntry): string[] {
+        return [time.toISOString(), entry.thread_id, entry.permalink, entry.labels.join('\n'), entry.from,
+            entry.subject, entry.snippet];
+    }
+
+    private static fromRow(row: string[]): DigestEntry {
+        const [/* time */, thread_id, permalink, labels, from, subject, snippet] = row;
+        return {
+            thread_id, permalink, from, subject, snippet,
+            labels: labels.split('\n').filter(label => label.length > 0),
+        };
+    }
+
+    // Entries by sorted group names with unlabeled last, keeping the latest entry of each thread at its first position
+    private static groupEntries(entries: DigestEntry[], group_by: DigestGroupType): Map<string, DigestEntry[]> {
+        const latest_entries = new Map<string, DigestEntry>();
+        entries.forEach(entry => latest_entries.set(entry.thread_id, entry));
+
+        const groups = new Map<string, DigestEntry[]>();
+        const add = (name: string, entry: DigestEntry) => {
+            if (!groups.has(name)) {
+                groups.set(name, []);
+            }
+            groups.get(name)!.push(entry);
+        };
+        latest_entries.forEach(entry => {
+            switch (group_by) {
+                case DigestGroupType.LABEL:
+                    if (entry.labels.length === 0) {
+                        add(Digest.UNLABELED_GROUP, entry);
+                    }
+                    entry.labels.forEach(label => add(label, entry));
+                    break;
+                case DigestGroupType.SENDER:
+                    add(MessageData.parseEmailAddress(entry.from), entry);
+                    break;
+                case DigestGroupType.NONE:
+                    add('', entry);
+                    break;
+            }
+        });
+        const rank = (name: string) => name === Digest.UNLABELED_GROUP ? 1 : 0;
+        return new Map(Array.from(groups.entries()).sort(
+            ([a], [b]) => rank(a) - rank(b) || (a < b ? -1 : a > b ? 1 : 0)));
+    }
+
+    private static escapeHtml(str: string): string {
+        return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    }
+
+    private static formatHtml(groups: Map<string, DigestEntry[]>): string {
+        const escape = Digest.escapeHtml;
+        let html = '';
+        groups.forEach((entries, name) => {
+            if (name.length > 0) {
+                html += `<h3>${escape(name)} (${entries.length})</h3>\n`;
+            }
+            html += '<ul>\n';
+            for (const entry of entries) {
+                html += `<li><a href="${escape(entry.permalink)}">${escape(entry.subject || '(no subject)')}</a>`
+                    + ` from ${escape(entry.from)}<br>\n<span style="color:#666">${escape(entry.snippet)}</span></li>\n`;
+            }
+            html += '</ul>\n';
+        });
+        return html;
+    }
+
+    private static formatText(groups: Map<string, DigestEntry[]>): string {
+        let text = '';
+        groups.forEach((entries, name) => {
+            if (name.length > 0) {
+                text += `${name} (${entries.length})\n`;
+            }
+            for (const entry of entries) {
+                text += `* ${entry.subject || '(no subject)'} from ${entry.from}\n  ${entry.permalink}\n`;
+            }
+            text += '\n';
+        });
+        return text;
+    }
+
+    private static getSheet(): GoogleAppsScript.Spreadsheet.Sheet {
+        const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+        let sheet = spreadsheet.getSheetByName(Digest.SHEET_NAME);
+        if (sheet === null) {
+            sheet = spreadsheet.insertSheet(Digest.SHEET_NAME);
+            sheet.getRange(1, 1, 1, Digest.HEADERS.length).setValues([Digest.HEADERS]);
+        }
+        return sheet;
+    }
+
+    // Appends threads to the next digest
+    public static record(processing_start_time: Date, entries: DigestEntry[]) {
+        if (entries.length === 0) {
+            return;
+        }
+        const sheet = Digest.getSheet();
+        const range = sheet.getRange(sheet.getLastRow() + 1, 1, entries.length, Digest.HEADERS.length);
+        // Keep values as text, instead of letting Sheets convert them
+        range.setNumberFormat('@');
+        range.setValues(entries.map(entry => Digest.toRow(processing_start_time, entry)));
+        Logger.log(`Recorded ${entries.length} threads for digest.`);
+    }
+
+    // Sends recorded threads in one email, then removes them
+    public static sendDigest() {
+        const config = Config.getConfig();
+        const sheet = Digest.getSheet();
+        const row_num = sheet.getLastRow() - 1;
+        if (row_num <= 0) {
+            Logger.log(`No thread for digest.`);
+            return;
+        }
+        const rows = sheet.getRange(2, 1, row_num, Digest.HEADERS.length).getDisplayValues();
+        const groups = Digest.groupEntries(rows.map(row => Digest.fromRow(row)), config.digest_group_by);
+        const thread_count = new Set(rows.map(([/* time */, thread_id]) => thread_id)).size;
+
+        Utils.withTimer("SendDigest", () => GmailApp.sendEmail(
+            Session.getActiveUser().getEmail(),
+            `Gmail Automata digest: ${thread_count} threads`,
+            Digest.formatText(groups),
+            {htmlBody: Digest.formatHtml(groups)}));
+        // Only the sent rows, threads recorded meanwhile are appended after them
+        sheet.deleteRows(2, row_num);
+        Logger.log(`Sent digest of ${thread_count} threads.`);
+    }
+
+    public static testDigest(it: Function, expect: Function) {
+        const entry_of = (thread_id: string, labels: string[], from: string = 'abc@gmail.com'): DigestEntry => ({
+            thread_id, labels, from,
+            permalink: `https://mail.google.com/mail/#all/${thread_id}`,
+            subject: `subject ${thread_id}`,
+            snippet: `snippet ${thread_id}`,
+        });
+        const group_names = (groups: Map<string, DigestEntry[]>) => Array.from(groups.entries())
+            .map(([name, entries]) => `${name}: ${entries.map(entry => entry.thread_id)}`);
+
+        it('Creates entries of threads', () => {
+            const thread_action = new ThreadAction();
+            thread_action.addLabels(['team/ci/alerts', 'review']);
+            const thread = Mocks.getMockThreadOfMessages([{
+                getFrom: () => 'CI <ci@corp.com>',
+                getSubject: () => 'Build failed',
+                getPlainBody: () => ` Build\n\n  #42 ${'x'.repeat(300)}`,
+            }], {getId: () => 't1', getPermalink: () => 'https://mail.google.com/mail/#all/t1'});
+
+            const thread_data = new ThreadData(Mocks.getMockSessionData(), thread);
+            const entry = Digest.createEntry(thread, thread_action, thread_data.message_data_list[0]);
+
+            expect(entry.labels).toEqual(['team/ci/alerts', 'review']);
+            expect(entry.permalink).toBe('https://mail.google.com/mail/#all/t1');
+            expect(entry.from).toBe('CI <ci@corp.com>');
+            expect(entry.subject).toBe('Build failed');
+            expect(entry.snippet.length).toBe(203);
+            expect(entry.snippet.substring(0, 12)).toBe('Build #42 xx');
+        })
+        it('Keeps entries through sheet rows', () => {
+            const entry = entry_of('t1', ['a/b', 'c']);
+
+            expect(Digest.fromRow(Digest.toRow(new Date(0), entry))).toEqual(entry);
+            expect(Digest.fromRow(Digest.toRow(new Date(0), entry_of('t2', [])))).toEqual(entry_of('t2', []));
+        })
+        it('Groups entries by label, sender or none', () => {
+            const entries = [
+                entry_of('t1', ['team', 'alerts'], 'CI <ci@corp.com>'),
+                entry_of('t2', [], 'xyz@gmail.com'),
+                entry_of('t3', ['alerts'], 'ci@corp.com'),
+                entry_of('t1', ['team'], 'ci@corp.com'),
+            ];
+
+            expect(group_names(Digest.groupEntries(entries, DigestGroupType.LABEL)))
+                .toEqual(['alerts: t3', 'team: t1', 'Unlabeled: t2']);
+            expect(group_names(Digest.groupEntries(entries, DigestGroupType.SENDER)))
+                .toEqual(['ci@corp.com: t1,t3', 'xyz@gmail.com: t2']);
+            expect(group_names(Digest.groupEntries(entries, DigestGroupType.NONE))).toEqual([': t1,t2,t3']);
+        })
+        it('Formats escaped HTML with links', () => {
+            const entry = Object.assign(entry_of('t1', ['team']), {
+                from: 'CI <ci@corp.com>',
+                subject: 'a < b & "c"',
+            });
+
+            expect(Digest.formatHtml(Digest.groupEntries([entry], DigestGroupType.LABEL))).toBe(
+                '<h3>team (1)</h3>\n<ul>\n'
+                + '<li><a href="https://mail.google.com/mail/#all/t1">a &lt; b &amp; &quot;c&quot;</a>'
+                + ' from CI &lt;ci@corp.com&gt;<br>\n<span style="color:#666">snippet t1</span></li>\n</ul>\n');
+        })
+        it('Sends digest with sanity checking unless at another hour', () => {
+            const config_of = (digest_hour_of_day: number) => Mocks.getMockConfig({
+                hour_of_day_to_run_sanity_checking: 0,
+                digest_hour_of_day,
+            });
+
+            expect(Digest.isSentWithSanityChecking(config_of(-1))).toBe(true);
+            expect(Digest.isSentWithSanityChecking(config_of(0))).toBe(true);
+            expect(Digest.isSentWithSanityChecking(config_of(8))).toBe(false);
+        })
+    }
+}
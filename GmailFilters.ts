@@ -0,0 +1,715 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Mocks from './Mocks';
+import Utils from './utils';
+import {Rule, RuleScope} from './Rule';
+import {NamedConditions} from './NamedConditions';
+import ThreadAction, {ActionAfterMatchType, BooleanActionType, InboxActionType} from './ThreadAction';
+
+export interface GmailFilter {
+    // 1-based row of the rule in sheet
+    readonly row: number;
+    // Name and value of apps:property, e.g. ["hasTheWord", "from:abc@gmail.com"]
+    readonly properties: [string, string][];
+}
+
+export interface SkippedRule {
+    readonly row: number;
+    readonly reason: string;
+}
+
+export interface ImportedRule {
+    // Values of rule columns by header, e.g. {conditions: '(from abc@gmail.com)', add_labels: 'abc'}
+    readonly values: { [header: string]: string };
+    // What the filter does that the rule can't, the rule is disabled if any
+    readonly problems: string[];
+    // Properties of the filter, e.g. "from=abc@gmail.com label=abc"
+    readonly source: string;
+}
+
+/**
+ * Conversion between rules and Gmail native filters, in the mailFilters.xml format of Gmail settings.
+ */
+export class GmailFilters {
+
+    // Name of the attachment Gmail settings export, to import from
+    private static FILE_NAME = 'mailFilters.xml';
+    // Different from the one to import from, so that exported rules aren't imported back by mistake
+    private static EXPORT_FILE_NAME = 'gmailAutomataFilters.xml';
+    // Properties Gmail exports for every filter, which don't change what it does
+    private static IGNORED_PROPERTIES = ['sizeOperator', 'sizeUnit', 'excludeChats'];
+
+    private static escapeXml(str: string): string {
+        return str.replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/'/g, '&apos;')
+            .replace(/"/g, '&quot;');
+    }
+
+    private static unescapeXml(str: string): string {
+        return str.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|apos|quot);/gi, (entity: string, name: string) => {
+            if (name[0] === '#') {
+                return String.fromCharCode(name[1].toLowerCase() === 'x' ?
+                    parseInt(name.substring(2), 16) : parseInt(name.substring(1)));
+            }
+            return ({amp: '&', lt: '<', gt: '>', apos: "'", quot: '"'} as { [name: string]: string })[name.toLowerCase()];
+        });
+    }
+
+    private static escapeRegExp(str: string): string {
+        return str.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&');
+    }
+
+    // Converts a term of Gmail search to condition, where field is its operator, e.g. "from" for from:abc
+    private static termToCondition(field: string, text: string): string {
+        const pattern = `/${GmailFilters.escapeRegExp(text)}/i`;
+        // Full address matches the same way ignoring +tag, others are matched as part of the value
+        const address_pattern = /^[^\s@]+@[^\s@]+$/.test(text) ? text : pattern;
+        switch (field) {
+            case '':
+                return `(or (subject ${pattern}) (body ${pattern}))`;
+            case 'from':
+                return `(from ${address_pattern})`;
+            case 'to':
+                return `(receiver ${address_pattern})`;
+            case 'cc':
+            case 'bcc':
+            case 'list':
+                return `(${field} ${address_pattern})`;
+            case 'subject':
+                return `(subject ${pattern})`;
+            case 'filename':
+                return `(attachment-name ${pattern})`;
+            case 'has':
+                if (text.toLowerCase() === 'attachment') {
+                    return '(has-attachment)';
+                }
+                break;
+        }
+        throw `"${field}:${text}" has no condition equivalent`;
+    }
+
+    // Converts Gmail search query to condition, where field is the operator applied to its terms, e.g. "from" for
+    // the query of from:(a OR b). Throws the reason if it can't be converted.
+    private static queryToCondition(query: string, field: string = ''): string {
+        const tokens = (query.match(/[(){}|]|-|"[^"]*"?|[^\s(){}|"]+/g) || []).filter(token => token !== 'AND');
+        let index = 0;
+
+        const combine = (operator: string, conditions: string[]): string => {
+            Utils.assert(conditions.length > 0, `empty group in "${query}"`);
+            return conditions.length === 1 ? conditions[0] : `(${operator} ${conditions.join(' ')})`;
+        };
+        const parseSequence = (field: string, end?: string): string[] => {
+            const conditions: string[] = [];
+            while (index < tokens.length && tokens[index] !== end) {
+                conditions.push(parseOr(field));
+            }
+            if (end !== undefined) {
+                Utils.assert(index < tokens.length, `missing "${end}" in "${query}"`);
+                index++;
+            }
+            return conditions;
+        };
+        const parseOr = (field: string): string => {
+            const conditions = [parseUnary(field)];
+            while (tokens[index] === 'OR' || tokens[index] === '|') {
+                index++;
+                conditions.push(parseUnary(field));
+            }
+            return combine('or', conditions);
+        };
+        const parseUnary = (field: string): string => {
+            const token = tokens[index++];
+            Utils.assert(token !== undefined, `unexpected end of "${query}"`);
+            switch (token) {
+                case '-':
+                    return `(not ${parseUnary(field)})`;
+                case '(':
+                    return combine('and', parseSequence(field, ')'));
+                case '{':
+                    return combine('or', parseSequence(field, '}'));
+                case ')':
+                case '}':
+                    throw `unexpected "${token}" in "${query}"`;
+            }
+            if (token.startsWith('"')) {
+                return GmailFilters.termToCondition(field, token.replace(/^"|"$/g, ''));
+            }
+            const match = token.match(/^([a-z_]+):(.*)$/i);
+            if (match === null) {
+                return GmailFilters.termToCondition(field, token);
+            }
+            const [/* ignored */, name, value] = match;
+            if (value.length === 0) {
+                return parseUnary(name.toLowerCase());
+            }
+            return GmailFilters.termToCondition(name.toLowerCase(), value);
+        };
+
+        return combine('and', parseSequence(field));
+    }
+
+    // Returns apps:property of each filter entry in the XML
+    public static parseXml(xml: string): [string, string][][] {
+        const entries: [string, string][][] = [];
+        const entry_regexp = /<entry>([\s\S]*?)<\/entry>/g;
+        let entry_match;
+        while ((entry_match = entry_regexp.exec(xml)) !== null) {
+            const properties: [string, string][] = [];
+            const property_regexp = /<apps:property\s+name=(['"])(.*?)\1\s+value=(['"])([\s\S]*?)\3\s*\/>/g;
+            let property_match;
+            while ((property_match = property_regexp.exec(entry_match[1])) !== null) {
+                properties.push([property_match[2], GmailFilters.unescapeXml(property_match[4])]);
+            }
+            entries.push(properties);
+        }
+        return entries;
+    }
+
+    // Converts each filter to a rule in the given stage, where all of them apply like Gmail filters do
+    public static fromXml(xml: string, stage: number): ImportedRule[] {
+        return GmailFilters.parseXml(xml).map(properties => {
+            const conditions: string[] = [];
+            const problems: string[] = [];
+            const values: { [header: string]: string } = {stage: `${stage}`};
+            const property_map = new Map(properties);
+            for (const [name, value] of properties) {
+                try {
+                    switch (name) {
+                        case 'from':
+                        case 'to':
+                        case 'subject':
+                            conditions.push(GmailFilters.queryToCondition(value, name));
+                            break;
+                        case 'hasTheWord':
+                            conditions.push(GmailFilters.queryToCondition(value));
+                            break;
+                        case 'doesNotHaveTheWord':
+                            conditions.push(`(not ${GmailFilters.queryToCondition(`{${value}}`)})`);
+                            break;
+                        case 'hasAttachment':
+                            if (value === 'true') {
+                                conditions.push('(has-attachment)');
+                            }
+                            break;
+                        case 'label':
+                            Utils.assert(value.indexOf(',') < 0, `label "${value}" contains comma`);
+                            values.add_labels = value;
+                            break;
+                        case 'shouldArchive':
+                            if (!property_map.has('shouldTrash')) {
+                                values.move_to = 'archive';
+                            }
+                            break;
+                        case 'shouldTrash':
+                            values.move_to = 'trash';
+                            break;
+                        case 'shouldMarkAsRead':
+                            values.mark_read = 'true';
+                            break;
+                        case 'shouldStar':
+                            values.star = 'true';
+                            break;
+                        case 'forwardTo':
+                            values.forward_to = value;
+                            break;
+                        case 'shouldAlwaysMarkAsImportant':
+                            values.mark_important = 'true';
+                            break;
+                        case 'shouldNeverMarkAsImportant':
+                            values.mark_important = 'false';
+                            break;
+                        default:
+                            Utils.assert(GmailFilters.IGNORED_PROPERTIES.indexOf(name) >= 0,
+                                `"${name}" has no rule equivalent`);
+                    }
+                } catch (e) {
+                    problems.push(`${e}`);
+                }
+            }
+            if (conditions.length === 0) {
+                problems.push('filter has no criteria');
+            } else {
+                values.conditions = conditions.length === 1 ? conditions[0] : `(and ${conditions.join(' ')})`;
+            }
+            if (problems.length > 0) {
+                values.disabled = 'true';
+            }
+            const source = properties
+                .filter(([name]) => GmailFilters.IGNORED_PROPERTIES.indexOf(name) < 0)
+                .map(property => property.join('='))
+                .join(' ');
+            return {values, problems, source};
+        });
+    }
+
+    // Returns queries of earlier rules stopping processing before reaching the rule when they match,
+    // throws the reason if whether the rule is reached can't be expressed that way.
+    private static getBlockingQueries(rules: Rule[], index: number): string[] {
+        const rule = rules[index];
+        const queries: string[] = [];
+        for (let i = 0; i < index; i++) {
+            const earlier = rules[i];
+            let blocking = false;
+            switch (earlier.thread_action.action_after_match) {
+                case ActionAfterMatchType.DONE:
+                    blocking = true;
+                    break;
+                case ActionAfterMatchType.NEXT_STAGE:
+                    if (earlier.stage !== rule.stage) {
+                        throw `stage semantics: row ${earlier.row} continues processing to later stages`;
+                    }
+                    blocking = true;
+                    break;
+                case ActionAfterMatchType.DEFAULT:
+                case ActionAfterMatchType.FINISH_STAGE:
+                    blocking = earlier.stage < rule.stage;
+                    break;
+            }
+            if (!blocking) {
+                continue;
+            }
+            if (earlier.scope === RuleScope.THREAD) {
+                throw `stage semantics: row ${earlier.row} stops processing depending on the latest message of thread`;
+            }
+            try {
+                queries.push(earlier.condition.toGmailQuery());
+            } catch (e) {
+                throw `stage semantics: row ${earlier.row} stops processing before this rule, but can't be exported: ${e}`;
+            }
+        }
+        return queries;
+    }
+
+    // Returns properties of each filter entry, since a filter applies one label only
+    private static getActionProperties(action: Readonly<ThreadAction>): [string, string][][] {
+        const properties: [string, string][] = [];
+        if (action.removed_label_names.size > 0) {
+            throw `removing labels has no Gmail filter action`;
+        }
+        switch (action.move_to) {
+            case InboxActionType.INBOX:
+                throw `moving to inbox has no Gmail filter action`;
+            case InboxActionType.ARCHIVE:
+                properties.push(['shouldArchive', 'true']);
+                break;
+            case InboxActionType.TRASH:
+                properties.push(['shouldTrash', 'true']);
+                break;
+        }
+        switch (action.important) {
+            case BooleanActionType.ENABLE:
+                properties.push(['shouldAlwaysMarkAsImportant', 'true']);
+                break;
+            case BooleanActionType.DISABLE:
+                properties.push(['shouldNeverMarkAsImportant', 'true']);
+                break;
+        }
+        switch (action.read) {
+            case BooleanActionType.ENABLE:
+                properties.push(['shouldMarkAsRead', 'true']);
+                break;
+            case BooleanActionType.DISABLE:
+                throw `marking as unread has no Gmail filter action`;
+        }
+        switch (action.star) {
+            case BooleanActionType.ENABLE:
+                properties.push(['shouldStar', 'true']);
+                break;
+            case BooleanActionType.DISABLE:
+                throw `unstarring has no Gmail filter action`;
+        }
+        if (action.mute !== BooleanActionType.DEFAULT) {
+            throw `muting has no Gmail filter action`;
+        }
+        if (action.mark_spam === BooleanActionType.ENABLE) {
+            throw `marking as spam has no Gmail filter action`;
+        }
+        if (action.digest === BooleanActionType.ENABLE) {
+            throw `recording for digest has no Gmail filter action`;
+        }
+        if (action.deferred_actions.size > 0) {
+            throw `deferred actions have no Gmail filter action`;
+        }
+        if (action.forward_to.size > 1) {
+            throw `forwarding to more than one address has no Gmail filter action`;
+        }
+        action.forward_to.forEach(address => properties.push(['forwardTo', address]));
+        if (action.reply_template.length > 0) {
+            throw `replying with template has no Gmail filter action`;
+        }
+        if (action.auto_label === BooleanActionType.ENABLE) {
+            throw `auto labeling has no Gmail filter action`;
+        }
+        const label_templates = Array.from(action.label_names.values()).filter(ThreadAction.isLabelTemplate);
+        if (label_templates.length > 0) {
+            throw `label templates ${label_templates} have no Gmail filter action`;
+        }
+
+        const label_names = Array.from(action.label_names.values());
+        if (label_names.length === 0) {
+            Utils.assert(properties.length > 0, `rule has no action`);
+            return [properties];
+        }
+        return label_names.map((label_name, index) =>
+            (index === 0 ? properties : []).concat([['label', label_name]]));
+    }
+
+    public static toFilters(rules: Rule[]): { filters: GmailFilter[], skipped: SkippedRule[] } {
+        const filters: GmailFilter[] = [];
+        const skipped: SkippedRule[] = [];
+        rules.forEach((rule, index) => {
+            try {
+                Utils.assert(rule.scope === RuleScope.MESSAGE, `thread scope has no Gmail filter equivalent`);
+                const query = [rule.condition.toGmailQuery()]
+                    .concat(GmailFilters.getBlockingQueries(rules, index).map(query => `-(${query})`))
+                    .join(' ');
+                for (const properties of GmailFilters.getActionProperties(rule.thread_action)) {
+                    filters.push({row: rule.row, properties: [['hasTheWord', query] as [string, string]].concat(properties)});
+                }
+            } catch (e) {
+                skipped.push({row: rule.row, reason: `${e}`});
+            }
+        });
+        return {filters, skipped};
+    }
+
+    public static toXml(filters: GmailFilter[], email: string, now: Date): string {
+        const updated = now.toISOString().replace(/\.\d+Z$/, 'Z');
+        const id = now.getTime();
+        const entries = filters.map((filter, index) => [
+            `\t<entry>`,
+            `\t\t<category term='filter'></category>`,
+            `\t\t<title>Mail Filter</title>`,
+            `\t\t<id>tag:mail.google.com,2008:filter:${id}${index}</id>`,
+            `\t\t<updated>${updated}</updated>`,
+            `\t\t<content></content>`,
+            ...filter.properties.map(([name, value]) =>
+                `\t\t<apps:property name='${name}' value='${GmailFilters.escapeXml(value)}'/>`),
+            `\t</entry>`,
+        ].join('\n'));
+        return [
+            `<?xml version='1.0' encoding='UTF-8'?><feed xmlns='http://www.w3.org/2005/Atom' xmlns:apps='http://schemas.google.com/apps/2006'>`,
+            `\t<title>Mail Filters</title>`,
+            `\t<id>tag:mail.google.com,2008:filters:${id}</id>`,
+            `\t<updated>${updated}</updated>`,
+            `\t<author>`,
+            `\t\t<name>Gmail Automata</name>`,
+            `\t\t<email>${GmailFilters.escapeXml(email)}</email>`,
+            `\t</author>`,
+            ...entries,
+            `</feed>`,
+            ``,
+        ].join('\n');
+    }
+
+    // Emails the exported filters to the user, with the rules that can't be exported
+    public static exportToEmail() {
+        const rules = Rule.getRules();
+        const {filters, skipped} = GmailFilters.toFilters(rules);
+        const email = Session.getActiveUser().getEmail();
+        const xml = GmailFilters.toXml(filters, email, new Date());
+        const exported_rows = new Set(filters.map(filter => filter.row));
+        const body = [
+            `Exported ${exported_rows.size} of ${rules.length} rules as ${filters.length} Gmail filters in the attachment.`,
+            `Import it in Gmail settings, "Filters and Blocked Addresses", "Import filters".`,
+            `Rules are still processed by Gmail Automata, disable the exported ones in the rules sheet after importing.`,
+            ``,
+            `Rules not exported:`,
+            ...skipped.map(skipped_rule => `row ${skipped_rule.row}: ${skipped_rule.reason}`),
+        ].join('\n');
+        GmailApp.sendEmail(email, 'Gmail filters exported from Gmail Automata', body, {
+            attachments: [Utilities.newBlob(xml, 'text/xml', GmailFilters.EXPORT_FILE_NAME)],
+        });
+        Logger.log(`Exported ${filters.length} filters, skipped ${skipped.length} rules.`);
+    }
+
+    // Flags values of columns missing in the header, which would be dropped when written to the sheet
+    private static fitToHeader(imported_rules: ImportedRule[], header_row: string[]): ImportedRule[] {
+        return imported_rules.map(rule => {
+            const problems = rule.problems.concat(Object.keys(rule.values)
+                .filter(header => header_row.indexOf(header) < 0)
+                .map(header => `"${rule.values[header]}" of missing column "${header}" in rules sheet`));
+            const values = problems.length > 0 ? Object.assign({}, rule.values, {disabled: 'true'}) : rule.values;
+            return {values, problems, source: rule.source};
+        });
+    }
+
+    // Appends filters in the latest email with mailFilters.xml attachment to the rules sheet, in a new last stage
+    public static importFromEmail() {
+        let xml: string | undefined;
+        for (const thread of GmailApp.search(`filename:${GmailFilters.FILE_NAME}`, 0, 1)) {
+            for (const message of thread.getMessages()) {
+                for (const attachment of message.getAttachments()) {
+                    if (attachment.getName() === GmailFilters.FILE_NAME) {
+                        xml = attachment.getDataAsString();
+                    }
+                }
+            }
+        }
+        Utils.assert(xml !== undefined, `No email with ${GmailFilters.FILE_NAME} attachment found`);
+
+        const values = Rule.getRuleValues();
+        const header_row = values[0];
+        const header_map = Rule.parseHeaderMap(header_row);
+        const stages = values.slice(1).map(row => parseInt(row[header_map['stage']])).filter(stage => !isNaN(stage));
+        const stage = Math.max(0, ...stages) + 1;
+        const imported_rules = GmailFilters.fitToHeader(GmailFilters.fromXml(xml!, stage), header_row);
+        if (imported_rules.length === 0) {
+            Logger.log(`No filter found in ${GmailFilters.FILE_NAME}.`);
+            return;
+        }
+
+        const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName('rules')!;
+        const first_row = sheet.getLastRow() + 1;
+        sheet.getRange(first_row, 1, imported_rules.length, header_row.length)
+            .setValues(imported_rules.map(rule => header_row.map(header => rule.values[header] || '')));
+        imported_rules.forEach((rule, index) => {
+            if (rule.problems.length > 0) {
+                sheet.getRange(first_row + index, header_map['conditions'] + 1).setNote(
+                    `Imported from Gmail filter: ${rule.source}\nDisabled, since it can't be represented:\n`
+                    + rule.problems.join('\n'));
+            }
+        });
+        const disabled_count = imported_rules.filter(rule => rule.problems.length > 0).length;
+        Logger.log(`Imported ${imported_rules.length} filters to stage ${stage}, ${disabled_count} of them disabled.`);
+    }
+
+    public static testGmailFilters(it: Function, expect: Function) {
+        function export_rules(rows: { [key: string]: string }[]): string[] {
+            const {filters, skipped} = GmailFilters.toFilters(Rule.parseRules(Mocks.getMockTestSheet(rows)));
+            return filters.map(filter => `${filter.row} ${filter.properties.map(p => p.join('=')).join(' ')}`)
+                .concat(skipped.map(skipped_rule => `${skipped_rule.row} skipped`));
+        }
+
+        function export_query(condition_str: string): string {
+            const {filters, skipped} = GmailFilters.toFilters(Rule.parseRules(Mocks.getMockTestSheet([
+                {conditions: condition_str, move_to: 'archive'}])));
+            if (skipped.length > 0) {
+                return `skipped: ${skipped[0].reason}`;
+            }
+            return filters[0].properties[0][1];
+        }
+
+        it('Exports address conditions', () => {
+            expect(export_query('(or (from abc@gmail.com) (sender "def@gmail.com") (list list@corp.com))'))
+                .toBe('{from:abc@gmail.com from:def@gmail.com list:list@corp.com}');
+        })
+        it('Exports nested and, or and not', () => {
+            expect(export_query('(and (to abc@gmail.com) (not (or (cc def@gmail.com) (subject hello world))))'))
+                .toBe('to:abc@gmail.com -{cc:def@gmail.com subject:"hello world"}');
+        })
+        it('Exports receiver as any recipient', () => {
+            expect(export_query('(receiver abc@gmail.com)'))
+                .toBe('{to:abc@gmail.com cc:abc@gmail.com bcc:abc@gmail.com list:abc@gmail.com}');
+        })
+        it('Exports named conditions', () => {
+            const named_conditions = NamedConditions.parseNamedConditions([
+                ["name", "conditions"],
+                ["team", "(or (from abc@gmail.com) (from def@gmail.com))"],
+            ]);
+            const rules = Rule.parseRules(Mocks.getMockTestSheet([
+                {conditions: '(and (ref team) (subject alert))', move_to: 'archive'}]), named_conditions);
+            expect(GmailFilters.toFilters(rules).filters[0].properties[0][1])
+                .toBe('{from:abc@gmail.com from:def@gmail.com} subject:alert');
+        })
+        it('Does not export regexp', () => {
+            expect(export_query('(subject /alert/i)')).toBe('skipped: regexp /alert/i has no Gmail search equivalent');
+        })
+        it('Does not export body regexp', () => {
+            expect(export_query('(and (from abc@gmail.com) (body /unsubscribe/))'))
+                .toBe('skipped: regexp /unsubscribe/ has no Gmail search equivalent');
+        })
+        it('Does not export glob or folded text', () => {
+            expect(export_query("(subject 'alert*')")).toBe("skipped: glob 'alert*' has no Gmail search equivalent");
+            expect(export_query('(fold (subject alert))')).toBe('skipped: (fold) has no Gmail search equivalent');
+        })
+        it('Does not export partial address', () => {
+            expect(export_query('(from gmail.com)').startsWith('skipped:')).toBe(true);
+        })
+        it('Does not export matchers without Gmail search equivalent', () => {
+            expect(export_query('(header X-Priority 1)')).toBe('skipped: (header) has no Gmail search equivalent');
+        })
+        it('Exports each label as a filter', () => {
+            expect(export_rules([
+                {conditions: '(from abc@gmail.com)', add_labels: 'abc/def', mark_read: 'true', mark_important: 'false'},
+            ])).toEqual([
+                '2 hasTheWord=from:abc@gmail.com shouldNeverMarkAsImportant=true shouldMarkAsRead=true label=abc/def',
+                '2 hasTheWord=from:abc@gmail.com label=abc',
+            ]);
+        })
+        it('Does not export actions without Gmail filter action', () => {
+            expect(export_rules([
+                {conditions: '(from abc@gmail.com)', move_to: 'inbox'},
+                {conditions: '(from def@gmail.com)', mark_read: 'false'},
+                {conditions: '(from ghi@gmail.com)'},
+            ])).toEqual(['2 skipped', '3 skipped', '4 skipped']);
+        })
+        it('Exports star but not mute, spam, digest or deferred actions', () => {
+            expect(export_rules([
+                {conditions: '(from abc@gmail.com)', star: 'true'},
+                {conditions: '(from def@gmail.com)', star: 'false'},
+                {conditions: '(from ghi@gmail.com)', mute: 'true'},
+                {conditions: '(from jkl@gmail.com)', mark_spam: 'true'},
+                {conditions: '(from mno@gmail.com)', move_to: 'archive', deferred_action: '3d inbox'},
+                {conditions: '(from pqr@gmail.com)', digest: 'true'},
+            ])).toEqual([
+                '2 hasTheWord=from:abc@gmail.com shouldStar=true', '3 skipped', '4 skipped', '5 skipped', '6 skipped',
+                '7 skipped']);
+        })
+        it('Exports forwarding to one address but not replies', () => {
+            expect(export_rules([
+                {conditions: '(subject invoice)', forward_to: 'ap@corp.com'},
+                {conditions: '(subject receipt)', forward_to: 'ap@corp.com, audit@corp.com'},
+                {conditions: '(to support@corp.com)', reply_template: 'ack'},
+            ])).toEqual(['2 hasTheWord=subject:invoice forwardTo=ap@corp.com', '3 skipped', '4 skipped']);
+        })
+        it('Does not export label templates or auto label', () => {
+            expect(export_rules([
+                {conditions: '(from abc@gmail.com)', add_labels: 'customers/{from_domain}'},
+                {conditions: '(from def@gmail.com)', add_labels: 'abc', auto_label: 'true'},
+            ])).toEqual(['2 skipped', '3 skipped']);
+        })
+        it('Excludes messages stopped by earlier rules', () => {
+            expect(export_rules([
+                {conditions: '(from abc@gmail.com)', move_to: 'archive', stage: '1'},
+                {conditions: '(from def@gmail.com)', move_to: 'trash', stage: '1', action_after_match: 'done'},
+                {conditions: '(subject alert)', move_to: 'archive', stage: '1'},
+                {conditions: '(subject other)', move_to: 'archive', stage: '2'},
+            ])).toEqual([
+                '2 hasTheWord=from:abc@gmail.com shouldArchive=true',
+                '3 hasTheWord=from:def@gmail.com shouldTrash=true',
+                '4 hasTheWord=subject:alert -(from:def@gmail.com) shouldArchive=true',
+                '5 hasTheWord=subject:other -(from:abc@gmail.com) -(from:def@gmail.com) -(subject:alert) shouldArchive=true',
+            ]);
+        })
+        it('Does not export rules depending on untranslatable stage semantics', () => {
+            expect(export_rules([
+                {conditions: '(subject /alert/)', move_to: 'archive', stage: '1'},
+                {conditions: '(from abc@gmail.com)', move_to: 'archive', stage: '1', action_after_match: 'next_stage'},
+                {conditions: '(from def@gmail.com)', move_to: 'archive', stage: '1'},
+                {conditions: '(from ghi@gmail.com)', move_to: 'archive', stage: '2'},
+            ])).toEqual([
+                '3 hasTheWord=from:abc@gmail.com shouldArchive=true',
+                '4 hasTheWord=from:def@gmail.com -(from:abc@gmail.com) shouldArchive=true',
+                '2 skipped', '5 skipped',
+            ]);
+        })
+        it('Writes escaped XML', () => {
+            const xml = GmailFilters.toXml([{row: 2, properties: [['hasTheWord', 'subject:"a&b"'], ['label', 'x']]}],
+                'abc@gmail.com', new Date(Date.UTC(2020, 0, 31, 12)));
+            expect(xml.indexOf(`<apps:property name='hasTheWord' value='subject:&quot;a&amp;b&quot;'/>`))
+                .toBeGreaterThan(0);
+            expect(xml.indexOf(`<updated>2020-01-31T12:00:00Z</updated>`)).toBeGreaterThan(0);
+        })
+
+        function import_condition(property: string, value: string): string {
+            const xml = GmailFilters.toXml([{row: 2, properties: [[property, value], ['label', 'abc']]}],
+                'abc@gmail.com', new Date());
+            const imported_rule = GmailFilters.fromXml(xml, 1)[0];
+            return imported_rule.problems.length > 0 ? `problem: ${imported_rule.problems[0]}` : imported_rule.values.conditions;
+        }
+
+        it('Imports address criteria', () => {
+            expect(import_condition('from', 'abc@gmail.com OR def@gmail.com'))
+                .toBe('(or (from abc@gmail.com) (from def@gmail.com))');
+            expect(import_condition('to', 'corp.com')).toBe('(receiver /corp\\.com/i)');
+        })
+        it('Imports subject as words', () => {
+            expect(import_condition('subject', 'hello "big world"'))
+                .toBe('(and (subject /hello/i) (subject /big world/i))');
+        })
+        it('Imports search query with operators', () => {
+            expect(import_condition('hasTheWord', '{list:(team.corp.com) cc:abc@gmail.com} -subject:(a|b) has:attachment'))
+                .toBe('(and (or (list /team\\.corp\\.com/i) (cc abc@gmail.com)) '
+                    + '(not (or (subject /a/i) (subject /b/i))) (has-attachment))');
+        })
+        it('Imports excluded words', () => {
+            expect(import_condition('doesNotHaveTheWord', 'unsubscribe newsletter')).toBe(
+                '(not (or (or (subject /unsubscribe/i) (body /unsubscribe/i)) (or (subject /newsletter/i) (body /newsletter/i))))');
+        })
+        it('Flags search operators without condition', () => {
+            expect(import_condition('hasTheWord', 'label:foo'))
+                .toBe('problem: "label:foo" has no condition equivalent');
+        })
+        it('Imports Gmail exported filters', () => {
+            const xml = `<?xml version='1.0' encoding='UTF-8'?><feed xmlns='http://www.w3.org/2005/Atom' xmlns:apps='http://schemas.google.com/apps/2006'>
+	<title>Mail Filters</title>
+	<entry>
+		<category term='filter'></category>
+		<apps:property name='from' value='alerts@corp.com'/>
+		<apps:property name='label' value='bot/alerts'/>
+		<apps:property name='shouldArchive' value='true'/>
+		<apps:property name='shouldMarkAsRead' value='true'/>
+		<apps:property name='shouldStar' value='true'/>
+		<apps:property name='forwardTo' value='ap@corp.com'/>
+		<apps:property name='sizeOperator' value='s_sl'/>
+		<apps:property name='sizeUnit' value='s_smb'/>
+	</entry>
+	<entry>
+		<category term='filter'></category>
+		<apps:property name='hasTheWord' value='subject:&quot;R&amp;D&quot;'/>
+		<apps:property name='shouldAlwaysMarkAsImportant' value='true'/>
+		<apps:property name='shouldNeverSpam' value='true'/>
+	</entry>
+</feed>`;
+            const imported_rules = GmailFilters.fromXml(xml, 3);
+            expect(imported_rules.length).toBe(2);
+            expect(imported_rules[0].problems).toEqual([]);
+            expect(imported_rules[0].values.add_labels).toBe('bot/alerts');
+            expect(imported_rules[0].values.move_to).toBe('archive');
+            expect(imported_rules[1].values.conditions).toBe('(subject /R&D/i)');
+            expect(imported_rules[1].values.disabled).toBe('true');
+            expect(imported_rules[1].problems).toEqual(['"shouldNeverSpam" has no rule equivalent']);
+            expect(imported_rules[1].source).toBe('hasTheWord=subject:"R&D" shouldAlwaysMarkAsImportant=true shouldNeverSpam=true');
+
+            const rules = Rule.parseRules(Mocks.getMockTestSheet(imported_rules.map(rule => rule.values)));
+            expect(rules.length).toBe(1);
+            expect(rules[0].stage).toBe(3);
+            expect(rules[0].thread_action.read).toBe(BooleanActionType.ENABLE);
+            expect(rules[0].thread_action.star).toBe(BooleanActionType.ENABLE);
+            expect(rules[0].thread_action.forward_to).toEqual(new Set(['ap@corp.com']));
+        })
+        it('Flags values of missing columns', () => {
+            const xml = GmailFilters.toXml([
+                {row: 2, properties: [['from', 'abc@gmail.com'], ['label', 'abc']]},
+                {row: 3, properties: [['from', 'def@gmail.com'], ['shouldStar', 'true']]},
+            ], 'abc@gmail.com', new Date());
+            const header_row = Mocks.getMockTestSheetHeaders().filter(header => header !== 'star');
+
+            const imported_rules = GmailFilters.fitToHeader(GmailFilters.fromXml(xml, 1), header_row);
+
+            expect(imported_rules.map(rule => rule.problems)).toEqual(
+                [[], ['"true" of missing column "star" in rules sheet']]);
+            expect(imported_rules.map(rule => rule.values.disabled)).toEqual([undefined, 'true']);
+        })
+        it('Imports exported filters back to rules', () => {
+            const rules = Rule.parseRules(Mocks.getMockTestSheet([
+                {conditions: '(or (from abc@gmail.com) (subject hello world))', add_labels: 'abc', stage: '1'},
+                {conditions: '(and (list list@corp.com) (not (body alert)))', move_to: 'trash', stage: '1'},
+            ]));
+            const xml = GmailFilters.toXml(GmailFilters.toFilters(rules).filters, 'abc@gmail.com', new Date());
+            const imported_rules = GmailFilters.fromXml(xml, 1);
+            expect(imported_rules.map(rule => rule.values.conditions)).toEqual([
+                '(or (from abc@gmail.com) (subject /hello world/i))',
+                '(and (list list@corp.com) (not (or (subject /alert/i) (body /alert/i))))',
+            ]);
+            expect(Rule.parseRules(Mocks.getMockTestSheet(imported_rules.map(rule => rule.values))).length).toBe(2);
+        })
+    }
+}
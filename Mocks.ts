@@ -1,14 +1,23 @@
 import {SessionData} from "./SessionData";
-import {Config} from "./Config";
+import {Config, DigestGroupType, MergePolicy} from "./Config";
+import {RuleIndex} from "./RuleIndex";
+import {Templates} from "./Templates";
 
 
 export default class Mocks {
 
     private static base_config: Config = {
         auto_labeling_parent_label: "",
+        auto_replied_label: "myAutoReplied",
+        digest_group_by: DigestGroupType.LABEL,
+        digest_hour_of_day: -1,
+        forwarded_label: "myForwarded",
         go_link: "",
         hour_of_day_to_run_sanity_checking: 0,
+        max_retention_threads: 500,
         max_threads: 50,
+        merge_policy: MergePolicy.LAST_WINS,
+        muted_label: "myMuted",
         processed_label: "myProcessed",
         processing_failed_label: "zFailed",
         processing_frequency_in_minutes: 5,
@@ -19,8 +28,10 @@ export default class Mocks {
         Object.assign({}, Mocks.base_config, overrides)
     );
     
-    private static base_session_data: SessionData = {
+    // Rule index and templates are built when getting session data
+    private static base_session_data: Omit<SessionData, 'rule_index' | 'templates'> = {
         user_email: "abc@gmail.com",
+        time_zone: "UTC",
         config: Mocks.getMockConfig(),
         labels: {},
         rules: [],
@@ -30,7 +41,10 @@ export default class Mocks {
     };
 
     public static getMockSessionData = (overrides: Partial<SessionData> = {}) => (
-        Object.assign({}, Mocks.base_session_data, overrides)
+        Object.assign({}, Mocks.base_session_data, {
+            rule_index: new RuleIndex(overrides.rules || []),
+            templates: new Templates(),
+        }, overrides)
     );
 
     private static base_label = {
@@ -48,6 +62,7 @@ export default class Mocks {
         isUnread: () => false,
         getFirstMessageSubject: () => '',
         getMessages: () => [],
+        getMessageCount: () => 0,
     } as unknown as GoogleAppsScript.Gmail.GmailThread;
 
     private static base_message = {
@@ -58,9 +73,11 @@ export default class Mocks {
         getReplyTo: () => '',
         getSubject: () => '',
         getPlainBody: () => '',
+        getBody: () => '',
         getRawContent: () => '',
         getHeader: (_name: string) => '',
-        getDate: () => Date.now() as unknown as GoogleAppsScript.Base.Date,
+        getAttachments: () => [] as GoogleAppsScript.Gmail.GmailAttachment[],
+        getDate: () => new Date() as GoogleAppsScript.Base.Date,
         getThread: () => Mocks.base_thread
     } as GoogleAppsScript.Gmail.GmailMessage;
 
@@ -94,6 +111,7 @@ export default class Mocks {
         overridden_thread = Object.assign(
             {}, overridden_thread, {
                 getMessages: () => messages,
+                getMessageCount: () => messages.length,
                 getLabels: () => gmail_labels,
             });
 
@@ -108,7 +126,9 @@ export default class Mocks {
     public static getMockTestSheetHeaders(): string[] {
         return [
             "conditions", "add_labels", "move_to", "mark_important",
-            "mark_read", "stage", "auto_label", "disabled", "action_after_match"];
+            "mark_read", "stage", "auto_label", "scope", "remove_labels", "star", "mute", "mark_spam",
+            "deferred_action", "forward_to", "reply_template", "priority", "digest",
+            "disabled", "action_after_match"];
     }
 
     public static getMockTestSheet = (
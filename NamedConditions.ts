@@ -0,0 +1,179 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Utils from './utils';
+import Condition from './Condition';
+import {MessageData} from './ThreadData';
+import Mocks from './Mocks';
+import {ConditionParseError} from './ConditionParser';
+import {Rule} from './Rule';
+
+interface Definition {
+    readonly condition_str: string;
+    // 1-based row in sheet
+    readonly row: number;
+}
+
+/**
+ * Condition snippets defined in the "conditions" sheet, referenced by (ref NAME) in other conditions.
+ *
+ * Each snippet is parsed once on first reference, and the parsed condition is shared by all references.
+ */
+export class NamedConditions {
+
+    private static SHEET_NAME = 'conditions';
+
+    private readonly definitions: Map<string, Definition>;
+    private readonly parsed = new Map<string, Condition>();
+    // Names being parsed, in order of reference, to detect cycles
+    private readonly parsing: string[] = [];
+
+    constructor(definitions: Map<string, Definition> = new Map()) {
+        this.definitions = definitions;
+    }
+
+    get(name: string): Condition {
+        const key = name.trim().toLowerCase();
+        const parsed = this.parsed.get(key);
+        if (parsed !== undefined) {
+            return parsed;
+        }
+        const definition = this.definitions.get(key);
+        Utils.assert(definition !== undefined,
+            `Named condition ${name} is not defined in sheet '${NamedConditions.SHEET_NAME}'`);
+        const cycle_start = this.parsing.indexOf(key);
+        if (cycle_start >= 0) {
+            throw `Named conditions have a cycle: ${this.parsing.slice(cycle_start).concat(key).join(' -> ')}`;
+        }
+
+        this.parsing.push(key);
+        try {
+            const condition = new Condition(definition!.condition_str, this);
+            this.parsed.set(key, condition);
+            return condition;
+        } catch (e) {
+            if (e instanceof ConditionParseError) {
+                throw e.withLocation(NamedConditions.SHEET_NAME, definition!.row);
+            }
+            throw e;
+        } finally {
+            this.parsing.pop();
+        }
+    }
+
+    // Parses all definitions, so that errors are reported even for unreferenced ones
+    parseAll(): this {
+        this.definitions.forEach((_definition, name) => this.get(name));
+        return this;
+    }
+
+    public static parseNamedConditions(values: string[][]): NamedConditions {
+        const definitions = new Map<string, Definition>();
+        if (values.length === 0) {
+            return new NamedConditions(definitions);
+        }
+
+        const header_map = Rule.parseSheetHeaderMap(values[0], ['name', 'conditions'], 'named condition');
+
+        for (let row = 1; row < values.length; row++) {
+            const name = values[row][header_map["name"]].toLowerCase();
+            const condition_str = values[row][header_map["conditions"]];
+            if (name.length === 0) {
+                continue;
+            }
+            Utils.assert(!/\s|[()]/.test(name), `Named condition "${name}" can't contain spaces or parentheses`);
+            Utils.assert(!definitions.has(name), `Named condition ${name} is defined more than once`);
+            Utils.assert(condition_str.length > 0, `Named condition ${name} has empty conditions`);
+            definitions.set(name, {condition_str, row: row + 1});
+        }
+        return new NamedConditions(definitions);
+    }
+
+    public static getNamedConditions(): NamedConditions {
+        return NamedConditions.parseNamedConditions(NamedConditions.getNamedConditionValues()).parseAll();
+    }
+
+    public static getNamedConditionValues(): string[][] {
+        return Utils.withTimer("GetNamedConditionValues",
+            () => Rule.getOptionalSheetValues(NamedConditions.SHEET_NAME));
+    }
+
+    public static testNamedConditions(it: Function, expect: Function) {
+        function named(rows: string[][]): NamedConditions {
+            return NamedConditions.parseNamedConditions([["name", "conditions"], ...rows]).parseAll();
+        }
+
+        function test_cond(
+            condition_str: string, named_conditions: NamedConditions,
+            message: Partial<GoogleAppsScript.Gmail.GmailMessage>): boolean {
+            const condition = new Condition(condition_str, named_conditions);
+            return condition.match(new MessageData(Mocks.getMockMessage(message), 'UTC'));
+        }
+
+        const team = named([["team", "(or (from alice@corp.com) (from bob@corp.com))"]]);
+
+        it('Matches referenced condition', () => {
+            expect(test_cond(`(ref team)`, team, {getFrom: () => 'Bob <bob@corp.com>'})).toBe(true)
+        })
+        it('Does not match referenced condition', () => {
+            expect(test_cond(`(ref team)`, team, {getFrom: () => 'carol@corp.com'})).toBe(false)
+        })
+        it('Matches nested references case-insensitively', () => {
+            expect(test_cond(`(and (ref team-alerts) (not (ref TEAM-ALERTS-IGNORED)))`,
+                named([
+                    ["team", "(or (from alice@corp.com) (from bob@corp.com))"],
+                    ["Team-Alerts", "(and (ref team) (subject /^\\[alert\\]/i))"],
+                    ["team-alerts-ignored", "(subject /ignore/)"],
+                ]),
+                {getFrom: () => 'alice@corp.com', getSubject: () => '[ALERT] Disk full'})).toBe(true)
+        })
+        it('Shares parsed condition between references', () => {
+            expect(team.get('team')).toBe(team.get('TEAM'));
+        })
+        it('Fails with undefined name', () => {
+            expect(() => new Condition(`(ref unknown)`, team)).toThrow();
+        })
+        it('Fails without named conditions', () => {
+            expect(() => new Condition(`(ref team)`)).toThrow();
+        })
+        it('Fails with cycle', () => {
+            expect(() => named([
+                ["a", "(or (ref b) (from a@corp.com))"],
+                ["b", "(not (ref a))"],
+            ])).toThrow();
+        })
+        it('Fails with self reference', () => {
+            expect(() => named([["a", "(ref a)"]])).toThrow();
+        })
+        it('Fails with duplicate name', () => {
+            expect(() => named([["a", "(from a@corp.com)"], ["A", "(from b@corp.com)"]])).toThrow();
+        })
+        it('Fails with location of invalid condition', () => {
+            try {
+                named([["a", "(from a@corp.com)"], ["b", "(or (ref a)\n (form b@corp.com))"]]);
+                expect(true).toBe(false);
+            } catch (e) {
+                expect(e instanceof ConditionParseError).toBe(true);
+                expect((e as ConditionParseError).sheet).toBe('conditions');
+                expect((e as ConditionParseError).row).toBe(3);
+                expect((e as ConditionParseError).line).toBe(2);
+            }
+        })
+        it('Fails with invalid unreferenced condition', () => {
+            expect(() => named([["a", "(unknown a@corp.com)"]])).toThrow();
+        })
+    }
+}
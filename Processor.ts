@@ -13,65 +13,192 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
-import {ActionAfterMatchType, BooleanActionType, InboxActionType} from './ThreadAction';
+import ThreadAction, {
+    ActionAfterMatchType, BooleanActionType, InboxActionType, LabelTemplateValues} from './ThreadAction';
 import {SessionData} from './SessionData';
-import {ThreadData} from './ThreadData';
+import {MessageData, ThreadData} from './ThreadData';
 import {Stats} from './Stats';
 import Utils from './utils';
 import Mocks from './Mocks';
-import {Rule} from './Rule';
+import {Rule, RuleScope} from './Rule';
+import {ConditionTrace} from './Condition';
+import {MergePolicy} from './Config';
+
+export enum RuleTraceType {SKIPPED_BY_STAGE, NOT_MATCHED, MATCHED}
+
+export interface RuleTrace {
+    // 1-based row of the rule in sheet
+    readonly row: number;
+    readonly stage: number;
+    readonly type: RuleTraceType;
+    // How the condition is evaluated, unless skipped
+    readonly condition?: ConditionTrace;
+}
+
+/**
+ * How rules are applied to a message, see Processor.processThread.
+ */
+export interface MessageTrace {
+    readonly subject: string;
+    readonly from: string;
+    // Rules in the order they are considered
+    readonly rules: RuleTrace[];
+    readonly stop_reason: string;
+}
 
 export class Processor {
 
-    private static processThread(session_data: SessionData, thread_data: ThreadData) {
+    // Thread scope rules are evaluated against the latest message of thread, no matter which message is processed
+    private static getTargetMessage(rule: Rule, message_data: MessageData): MessageData {
+        if (rule.scope === RuleScope.THREAD) {
+            const thread_messages = message_data.thread_messages;
+            return thread_messages[thread_messages.length - 1];
+        }
+        return message_data;
+    }
+
+    private static getLabelTemplateValues(message_data: MessageData, subject_captures: string[]): LabelTemplateValues {
+        return {
+            list: message_data.list,
+            from: MessageData.parseEmailAddress(message_data.from),
+            from_domain: MessageData.parseEmailDomain(message_data.from),
+            subject: message_data.subject,
+            subject_captures,
+        };
+    }
+
+    // Applies rules to each message of the thread, and appends how they are applied to trace if given
+    private static processThread(session_data: SessionData, thread_data: ThreadData, trace?: MessageTrace[]) {
         for (const message_data of thread_data.message_data_list) {
+            const rule_traces: RuleTrace[] = [];
+            const trace_rule = (rule: Rule, type: RuleTraceType, condition_trace?: ConditionTrace[]) => {
+                if (trace !== undefined) {
+                    rule_traces.push({
+                        row: rule.row, stage: rule.stage, type,
+                        condition: condition_trace === undefined ? undefined : condition_trace[0],
+                    });
+                }
+            };
+            let matched_any = false;
+            let stop_reason = '';
+            // Skipping rules that can't match doesn't change stages, since they can't change stages either.
+            // Tracing evaluates all rules to explain them.
+            const candidates = trace === undefined ? session_data.rule_index.getCandidates(message_data) : undefined;
+
             // Apply each rule until matching a rule with a DONE action or matching a rule with
             // FINISH_STAGE and then exhausting all other rules in that stage.
             let min_stage = 0;
             let max_stage = Number.MAX_VALUE;
             for (const rule of session_data.rules) {
                 if (rule.stage < min_stage) {
+                    trace_rule(rule, RuleTraceType.SKIPPED_BY_STAGE);
                     continue;
                 }
                 if (rule.stage > max_stage) {
+                    stop_reason = `finished stage ${max_stage}`;
                     break;
                 }
-                if (rule.condition.match(message_data)) {
-                    console.log(`rule ${rule} matches message ${message_data}, apply action ${rule.thread_action}`);
-                    thread_data.thread_action.mergeFrom(rule.thread_action);
-                    let endThread = false;
-                    switch (rule.thread_action.action_after_match) {
-                        case ActionAfterMatchType.DONE:
-                            // Break out of switch and then out of loop.
-                            endThread = true;
-                            break;
-                        case ActionAfterMatchType.FINISH_STAGE:
-                        case ActionAfterMatchType.DEFAULT:
-                            max_stage = rule.stage;
-                            break;
-                        case ActionAfterMatchType.NEXT_STAGE:
-                            min_stage = rule.stage + 1;
-                            max_stage = Number.MAX_VALUE;
-                            break;
-                    }
-                    if (endThread) {
+                if (candidates !== undefined && !candidates.has(rule)) {
+                    continue;
+                }
+                const condition_trace: ConditionTrace[] | undefined = trace === undefined ? undefined : [];
+                const target_message = Processor.getTargetMessage(rule, message_data);
+                if (!rule.condition.match(target_message, condition_trace)) {
+                    trace_rule(rule, RuleTraceType.NOT_MATCHED, condition_trace);
+                    continue;
+                }
+                trace_rule(rule, RuleTraceType.MATCHED, condition_trace);
+                matched_any = true;
+                console.log(`rule ${rule} matches message ${message_data}, apply action ${rule.thread_action}`);
+                thread_data.thread_action.mergeFrom(rule.thread_action, Processor.getLabelTemplateValues(
+                    target_message, rule.condition.getSubjectCaptures(target_message) || []),
+                    rule, session_data.config.merge_policy);
+                let endThread = false;
+                switch (rule.thread_action.action_after_match) {
+                    case ActionAfterMatchType.DONE:
+                        // Break out of switch and then out of loop.
+                        endThread = true;
                         break;
-                    }
+                    case ActionAfterMatchType.FINISH_STAGE:
+                    case ActionAfterMatchType.DEFAULT:
+                        max_stage = rule.stage;
+                        break;
+                    case ActionAfterMatchType.NEXT_STAGE:
+                        min_stage = rule.stage + 1;
+                        max_stage = Number.MAX_VALUE;
+                        break;
+                }
+                if (endThread) {
+                    stop_reason = `row ${rule.row} matched with DONE`;
+                    break;
                 }
             }
             console.log(`Message is processed at stage ${max_stage}`);
+            if (trace !== undefined) {
+                trace.push({
+                    subject: message_data.subject,
+                    from: message_data.from,
+                    rules: rule_traces,
+                    stop_reason: stop_reason || (matched_any ? 'evaluated all rules' : 'no rule matched'),
+                });
+            }
 
-            // TODO: revisiting if auto labeling should be done differently
-            // update auto labeling
-            // if (thread_data.thread_action.auto_label == BooleanActionType.ENABLE) {
-            //   thread_data.thread_action.addLabels([
-            //     `${session_data.config.auto_labeling_parent_label}/${message_data.list}`]);
-            // }
-
+            // Label by mailing list, under the parent label if any
+            if (thread_data.thread_action.auto_label == BooleanActionType.ENABLE) {
+                thread_data.thread_action.addLabels([`${session_data.config.auto_labeling_parent_label}/{list}`],
+                    Processor.getLabelTemplateValues(message_data, []));
+            }
         }
         thread_data.validateActions();
     }
 
+    private static formatConditionTrace(condition_trace: ConditionTrace, indent: string): string[] {
+        const truncate = (value: string) => value.length > 100 ? `${value.substring(0, 100)}...` : value;
+        let line = `${indent}${condition_trace.condition} ${condition_trace.matched ? 'matched' : 'not matched'}`;
+        if (condition_trace.matched_text !== undefined) {
+            line += ` by "${truncate(condition_trace.matched_text)}"`;
+        }
+        if (condition_trace.values.length > 0) {
+            line += ` in ${JSON.stringify(condition_trace.values.map(truncate))}`;
+        }
+        return [line].concat(...condition_trace.children.map(
+            child => Processor.formatConditionTrace(child, indent + '  ')));
+    }
+
+    public static formatTrace(trace: MessageTrace[]): string {
+        return trace.map(message_trace => [
+            `Message "${message_trace.subject}" from ${message_trace.from}:`,
+            ...([] as string[]).concat(...message_trace.rules.map(rule_trace => [
+                `  row ${rule_trace.row} (stage ${rule_trace.stage}) ${RuleTraceType[rule_trace.type]}`,
+                ...(rule_trace.condition === undefined ? [] :
+                    Processor.formatConditionTrace(rule_trace.condition, '    ')),
+            ])),
+            `  stopped: ${message_trace.stop_reason}`,
+        ].join('\n')).join('\n');
+    }
+
+    // Explains how rules apply to threads found by the query, without applying any action
+    public static explainThreads(query: string, max_threads: number = 5): string {
+        const session_data = new SessionData();
+        const threads = GmailApp.search(query, 0, max_threads);
+        if (threads.length === 0) {
+            return `No thread found by "${query}".`;
+        }
+        return threads.map(thread => {
+            const thread_data = new ThreadData(session_data, thread);
+            const trace: MessageTrace[] = [];
+            let result: string;
+            try {
+                Processor.processThread(session_data, thread_data, trace);
+                result = [`Actions: ${thread_data.thread_action}`].concat(thread_data.thread_action.conflicts.map(
+                    conflict => `Conflict ${ThreadAction.formatConflict(conflict)}`)).join('\n');
+            } catch (e) {
+                result = `Failed: ${e}`;
+            }
+            return `Thread "${thread.getFirstMessageSubject()}":\n${Processor.formatTrace(trace)}\n${result}`;
+        }).join('\n\n');
+    }
+
     public static processAllUnprocessedThreads() {
         const start_time = new Date();
 
@@ -98,15 +225,19 @@ export class Processor {
             for (const thread_data of all_thread_data) {
                 try {
                     Processor.processThread(session_data, thread_data);
+                    for (const conflict of thread_data.thread_action.conflicts) {
+                        Logger.log(`Conflicting actions in thread "${thread_data.message_data_list[0].subject}", `
+                            + `${ThreadAction.formatConflict(conflict)}`);
+                    }
                     processed_thread_count++;
                     processed_message_count += thread_data.message_data_list.length;
                 } catch (e) {
                     all_pass = false;
                     console.error(`Process email failed: ${e}`);
                     Logger.log(`Process email failed: ${e}`);
-                    // move to inbox for visibility
+                    // drop actions of matched rules, and move to inbox for visibility
+                    thread_data.thread_action = new ThreadAction();
                     thread_data.thread_action.move_to = InboxActionType.INBOX;
-                    thread_data.thread_action.label_names.clear();
                     thread_data.thread_action.label_names.add(session_data.config.processing_failed_label);
                 }
             }
@@ -125,7 +256,8 @@ export class Processor {
         function test_proc(
             sheet_rows: { [key: string]: string}[] = [],
             thread_messages: Partial<GoogleAppsScript.Gmail.GmailMessage>[] = [],
-            thread: Partial<GoogleAppsScript.Gmail.GmailThread> = {}
+            thread: Partial<GoogleAppsScript.Gmail.GmailThread> = {},
+            trace?: MessageTrace[],
             ): ThreadData {
 
             const sheet = Mocks.getMockTestSheet(sheet_rows);
@@ -134,7 +266,7 @@ export class Processor {
             const mock_gmail_thread = Mocks.getMockThreadOfMessages(thread_messages, thread);
             const thread_data = new ThreadData(session_data, mock_gmail_thread);
 
-            Processor.processThread(session_data, thread_data);
+            Processor.processThread(session_data, thread_data, trace);
             return thread_data;
         }
 
@@ -185,5 +317,211 @@ export class Processor {
                 ])
             }).toThrow();
         })
+        it('Traces rules considered for each message', () => {
+            const trace: MessageTrace[] = [];
+            test_proc([
+                {conditions: '(from abc@gmail.com)', add_labels: 'abc', stage: '1'},
+                {conditions: '(or (subject /dail(y|ies)/) (subject weekly))', add_labels: 'digest', stage: '1',
+                    action_after_match: 'next_stage'},
+                {conditions: '(subject other)', add_labels: 'other', stage: '1'},
+                {conditions: '(subject daily)', add_labels: 'daily', stage: '2'},
+                {conditions: '(subject /.*/)', add_labels: 'all', stage: '3'},
+            ], [
+                {getFrom: () => 'xyz@gmail.com', getSubject: () => 'Some dailies'},
+            ], {}, trace);
+
+            expect(trace.length).toBe(1);
+            expect(trace[0].rules.map(rule_trace => `${rule_trace.row} ${RuleTraceType[rule_trace.type]}`)).toEqual([
+                '2 NOT_MATCHED', '3 MATCHED', '4 SKIPPED_BY_STAGE', '5 NOT_MATCHED', '6 MATCHED',
+            ]);
+            expect(trace[0].stop_reason).toBe('evaluated all rules');
+            const or_trace = trace[0].rules[1].condition!;
+            expect(or_trace.condition).toBe('(or)');
+            expect(or_trace.children.length).toBe(1);
+            expect(or_trace.children[0].matched_text).toBe('dailies');
+        })
+        it('Traces the rule stopping processing', () => {
+            const trace: MessageTrace[] = [];
+            test_proc([
+                {conditions: '(from xyz@gmail.com)', add_labels: 'xyz', stage: '1', action_after_match: 'done'},
+                {conditions: '(subject /.*/)', add_labels: 'all', stage: '1'},
+            ], [
+                {getFrom: () => 'Xyz <xyz@gmail.com>'},
+            ], {}, trace);
+
+            expect(trace[0].rules.length).toBe(1);
+            expect(trace[0].stop_reason).toBe('row 2 matched with DONE');
+            expect(trace[0].rules[0].condition!.values).toEqual(['Xyz <xyz@gmail.com>']);
+            expect(Processor.formatTrace(trace)).toBe([
+                'Message "" from Xyz <xyz@gmail.com>:',
+                '  row 2 (stage 1) MATCHED',
+                '    (from xyz@gmail.com) matched by "<xyz@gmail.com>" in ["Xyz <xyz@gmail.com>"]',
+                '  stopped: row 2 matched with DONE',
+            ].join('\n'));
+        })
+        it('Evaluates thread scope rules against the latest message', () => {
+            const thread_data = test_proc([
+                {conditions: '(from abc@gmail.com)', add_labels: 'abc', stage: '1'},
+                {conditions: '(from me@gmail.com)', add_labels: 'replied', stage: '1', scope: 'thread'},
+                {conditions: '(from abc@gmail.com)', add_labels: 'abc-last', stage: '1', scope: 'thread'},
+            ], [
+                {getFrom: () => 'abc@gmail.com'},
+                {getFrom: () => 'me@gmail.com'},
+            ]);
+
+            expect(thread_data.thread_action.label_names).toEqual(new Set(['abc', 'replied']));
+        })
+        it('Evaluates quantifiers over all messages of thread', () => {
+            const thread_data = test_proc([
+                {conditions: '(and (from abc@gmail.com) (any-message (subject urgent)))', add_labels: 'urgent', stage: '1'},
+                {conditions: '(all-messages (from abc@gmail.com))', add_labels: 'abc-only', stage: '1'},
+                {conditions: '(first-message (from def@gmail.com))', add_labels: 'def-started', stage: '1'},
+                {conditions: '(last-message (from def@gmail.com))', add_labels: 'def-last', stage: '1'},
+            ], [
+                {getFrom: () => 'def@gmail.com', getSubject: () => 'urgent'},
+                {getFrom: () => 'abc@gmail.com', getSubject: () => 'Re: later'},
+            ]);
+
+            expect(thread_data.thread_action.label_names).toEqual(new Set(['urgent', 'def-started']));
+        })
+        it('Removes labels added by earlier stages', () => {
+            const thread_data = test_proc([
+                {conditions: '(from abc@gmail.com)', add_labels: 'todo/review', stage: '1', action_after_match: 'next_stage'},
+                {conditions: '(subject /done/)', add_labels: 'done/review', remove_labels: 'todo/*', stage: '2'},
+            ], [
+                {getFrom: () => 'abc@gmail.com', getSubject: () => 'Review done'},
+            ]);
+
+            expect(thread_data.thread_action.label_names).toEqual(new Set(['todo', 'done', 'done/review']));
+            expect(thread_data.thread_action.removed_label_names).toEqual(new Set(['todo/*']));
+        })
+        it('Skips rules of other addresses without changing stages', () => {
+            const thread_data = test_proc([
+                {conditions: '(from abc@gmail.com)', add_labels: 'abc', stage: '1', action_after_match: 'done'},
+                {conditions: '(from xyz@gmail.com)', add_labels: 'xyz', stage: '1'},
+                {conditions: '(list team@gmail.com)', add_labels: 'team', stage: '2'},
+                {conditions: '(subject /.*/)', add_labels: 'all', stage: '3'},
+            ], [
+                {getFrom: () => 'Xyz <xyz+news@gmail.com>'},
+            ]);
+
+            expect(thread_data.thread_action.label_names).toEqual(new Set(['xyz']));
+        })
+        it('Expands label templates with the matched message', () => {
+            const thread_data = test_proc([
+                {conditions: '(subject /ticket #(\\d+)/i)', add_labels: 'tickets/{subject:1}, customers/{from_domain}'},
+                {conditions: '(from xyz@gmail.com)', add_labels: 'lists/{list}'},
+            ], [
+                {getFrom: () => 'Abc <abc@corp.com>', getSubject: () => 'Re: Ticket #42'},
+                {getFrom: () => 'xyz@gmail.com', getSubject: () => 'Ticket #43'},
+            ]);
+
+            expect(thread_data.thread_action.label_names).toEqual(new Set([
+                'tickets', 'tickets/42', 'customers', 'customers/corp.com', 'tickets/43', 'customers/gmail.com']));
+        })
+        it('Labels mailing list messages with auto label', () => {
+            const thread_data = test_proc([
+                {conditions: '(subject /.*/)', auto_label: 'true', mark_read: 'true'},
+            ], [
+                {getRawContent: () => 'Mailing-list: list team@corp.com\r\n\r\n'},
+                {getRawContent: () => ''},
+            ]);
+
+            expect(thread_data.thread_action.label_names).toEqual(new Set(['team@corp.com']));
+        })
+        it('Resolves conflicting rules by merge policy from config', () => {
+            const rules = Rule.parseRules(Mocks.getMockTestSheet([
+                {conditions: '(from abc@gmail.com)', move_to: 'inbox', stage: '1', action_after_match: 'next_stage'},
+                {conditions: '(subject /.*/)', move_to: 'archive', stage: '2', priority: '1'},
+            ]));
+            const process = (merge_policy: MergePolicy) => {
+                const session_data = Mocks.getMockSessionData({rules, config: Mocks.getMockConfig({merge_policy})});
+                const thread_data = new ThreadData(
+                    session_data, Mocks.getMockThreadOfMessages([{getFrom: () => 'abc@gmail.com'}]));
+                Processor.processThread(session_data, thread_data);
+                return thread_data.thread_action;
+            };
+
+            expect(process(MergePolicy.LAST_WINS).move_to).toBe(InboxActionType.ARCHIVE);
+            expect(process(MergePolicy.SAFEST).move_to).toBe(InboxActionType.INBOX);
+            expect(process(MergePolicy.PRIORITY).move_to).toBe(InboxActionType.ARCHIVE);
+            expect(process(MergePolicy.SAFEST).conflicts.map(ThreadAction.formatConflict))
+                .toEqual(['move_to: INBOX of row 2 over ARCHIVE of row 3']);
+        })
+        it('Benchmarks rule index and leaf cache', () => {
+            const sheet_rows: { [key: string]: string }[] = [];
+            for (let i = 0; i < 300; i++) {
+                const stage = `${1 + i % 5}`;
+                if (i % 3 === 0) {
+                    sheet_rows.push({conditions: `(and (from sender${i}@corp.com) (subject /report/))`,
+                        add_labels: `report${i}`, stage});
+                } else if (i % 3 === 1) {
+                    sheet_rows.push({conditions: `(or (list list${i}@corp.com) (receiver team${i}@corp.com))`,
+                        add_labels: `team${i}`, stage});
+                } else {
+                    sheet_rows.push({conditions: `(and (subject /urgent/i) (not (from sender${i}@corp.com)))`,
+                        add_labels: `urgent${i}`, stage});
+                }
+            }
+            sheet_rows.push({conditions: '(subject /.*/)', add_labels: 'all', stage: '10'});
+            const rules = Rule.parseRules(Mocks.getMockTestSheet(sheet_rows));
+            const session_data = Mocks.getMockSessionData({rules: rules});
+            const threads = [];
+            for (let t = 0; t < 50; t++) {
+                threads.push(Mocks.getMockThreadOfMessages([
+                    {getFrom: () => `sender${t * 6}@corp.com`, getSubject: () => 'Weekly report'},
+                    {getFrom: () => `other${t}@corp.com`, getTo: () => `team${t * 3 + 1}@corp.com`,
+                        getSubject: () => 'Re: Weekly report'},
+                ]));
+            }
+
+            // Tracing evaluates every rule without cache, as processing did without index and cache
+            let start = Date.now();
+            let naive_count = 0;
+            const count_leaves = (node: ConditionTrace): number =>
+                node.children.length === 0 ? 1 : node.children.reduce((sum, child) => sum + count_leaves(child), 0);
+            const naive_labels = threads.map(thread => {
+                const thread_data = new ThreadData(session_data, thread);
+                const trace: MessageTrace[] = [];
+                Processor.processThread(session_data, thread_data, trace);
+                for (const message_trace of trace) {
+                    for (const rule_trace of message_trace.rules) {
+                        naive_count += rule_trace.condition === undefined ? 0 : count_leaves(rule_trace.condition);
+                    }
+                }
+                return thread_data.thread_action.label_names;
+            });
+            const naive_ms = Date.now() - start;
+
+            start = Date.now();
+            let count = 0;
+            const labels = threads.map(thread => {
+                const thread_data = new ThreadData(session_data, thread);
+                Processor.processThread(session_data, thread_data);
+                for (const message_data of thread_data.message_data_list) {
+                    count += message_data.leaf_results.size;
+                }
+                return thread_data.thread_action.label_names;
+            });
+            const ms = Date.now() - start;
+            console.log(`Evaluated ${naive_count} leaf conditions in ${naive_ms}ms without rule index and leaf cache, `
+                + `${count} in ${ms}ms with them`);
+
+            expect(labels).toEqual(naive_labels);
+            expect(naive_count).toBeGreaterThan(count * 10);
+        })
+        it('Evaluates quantifiers over messages too old to process', () => {
+            const thread_data = test_proc([
+                {conditions: '(any-message (subject urgent))', add_labels: 'urgent', stage: '1'},
+                {conditions: '(first-message (from def@gmail.com))', add_labels: 'def-started', stage: '1'},
+            ], [
+                {getFrom: () => 'def@gmail.com', getSubject: () => 'urgent',
+                    getDate: () => new Date(0) as GoogleAppsScript.Base.Date},
+                {getFrom: () => 'abc@gmail.com', getSubject: () => 'Re: later'},
+            ]);
+
+            expect(thread_data.message_data_list.length).toBe(1);
+            expect(thread_data.thread_action.label_names).toEqual(new Set(['urgent', 'def-started']));
+        })
     }
 }
@@ -0,0 +1,266 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Utils from './utils';
+import Mocks from './Mocks';
+import Condition from './Condition';
+import {Rule} from './Rule';
+import {SessionData} from './SessionData';
+import {ThreadData} from './ThreadData';
+import ThreadAction, {BooleanActionType, InboxActionType} from './ThreadAction';
+
+export enum RetentionActionType {ARCHIVE, TRASH, MARK_READ, REMOVE_LABEL}
+
+type SearchFunction = (query: string, start: number, max: number) => GoogleAppsScript.Gmail.GmailThread[];
+
+/**
+ * Cleanup of threads in the "retention" sheet, applied by the daily sanity checking.
+ *
+ * Each row has either a "label" or a Gmail search "query" of threads, an "age" like 12h, 30d or 2w, and an "action"
+ * of archive, trash, mark_read or remove_label, applied to the threads whose latest message is older than the age.
+ */
+export class Retention {
+
+    private static SHEET_NAME = 'retention';
+    // Threads fetched by each search, Gmail allows up to 500
+    private static PAGE_SIZE = 100;
+    // Threads of each batch action, Gmail allows up to 100
+    private static BATCH_SIZE = 100;
+    private static DAY_MS = 24 * 60 * 60 * 1000;
+
+    // 1-based row in sheet
+    public readonly row: number;
+    public readonly label: string;
+    public readonly query: string;
+    public readonly age_ms: number;
+    public readonly action: RetentionActionType;
+
+    constructor(row: number, label: string, query: string, age_str: string, action_str: string) {
+        Utils.assert((label.length > 0) !== (query.length > 0),
+            `Retention in row ${row} should have either label or query`);
+        this.row = row;
+        this.label = label;
+        this.query = query;
+        this.age_ms = Condition.parseDuration(age_str, `retention in row ${row}`);
+        const action = RetentionActionType[action_str.toUpperCase() as keyof typeof RetentionActionType];
+        Utils.assert(action !== undefined, `Unexpected action ${action_str} of retention in row ${row}`);
+        Utils.assert(action !== RetentionActionType.REMOVE_LABEL || label.length > 0,
+            `Retention in row ${row} removes label, but has no label`);
+        this.action = action;
+    }
+
+    // Gmail search of threads that may be expired, whose latest messages are checked again since older_than
+    // matches any message of thread. Threads the action has been applied to are excluded.
+    getSearchQuery(): string {
+        // Gmail searches "a/b c" label as "a-b-c"
+        const terms = [this.label.length > 0 ? `label:${this.label.replace(/[\s\/]+/g, '-')}` : `(${this.query})`];
+        const days = Math.floor(this.age_ms / Retention.DAY_MS);
+        if (days > 0) {
+            terms.push(`older_than:${days}d`);
+        }
+        switch (this.action) {
+            case RetentionActionType.ARCHIVE:
+                terms.push('in:inbox');
+                break;
+            case RetentionActionType.MARK_READ:
+                terms.push('is:unread');
+                break;
+        }
+        return terms.join(' ');
+    }
+
+    getThreadAction(): ThreadAction {
+        const thread_action = new ThreadAction();
+        switch (this.action) {
+            case RetentionActionType.ARCHIVE:
+                thread_action.move_to = InboxActionType.ARCHIVE;
+                break;
+            case RetentionActionType.TRASH:
+                thread_action.move_to = InboxActionType.TRASH;
+                break;
+            case RetentionActionType.MARK_READ:
+                thread_action.read = BooleanActionType.ENABLE;
+                break;
+            case RetentionActionType.REMOVE_LABEL:
+                thread_action.removeLabels([this.label]);
+                break;
+        }
+        return thread_action;
+    }
+
+    toString() {
+        return `row ${this.row} ${RetentionActionType[this.action].toLowerCase()} "${this.getSearchQuery()}"`;
+    }
+
+    // Pages through search results for threads whose latest messages are older than the age, up to max_count
+    findExpiredThreads(search: SearchFunction, now: Date, max_count: number): GoogleAppsScript.Gmail.GmailThread[] {
+        const expire_time = now.getTime() - this.age_ms;
+        const query = this.getSearchQuery();
+        const result: GoogleAppsScript.Gmail.GmailThread[] = [];
+        for (let start = 0; result.length < max_count; start += Retention.PAGE_SIZE) {
+            const threads = search(query, start, Retention.PAGE_SIZE);
+            for (const thread of threads) {
+                if (result.length < max_count && thread.getLastMessageDate().getTime() <= expire_time) {
+                    result.push(thread);
+                }
+            }
+            if (threads.length < Retention.PAGE_SIZE) {
+                break;
+            }
+        }
+        return result;
+    }
+
+    public static parseRetention(values: string[][]): Retention[] {
+        if (values.length === 0) {
+            return [];
+        }
+
+        const header_map = Rule.parseSheetHeaderMap(values[0], ['label', 'query', 'age', 'action'], 'retention');
+
+        const result: Retention[] = [];
+        for (let row = 1; row < values.length; row++) {
+            const [label, query, age, action] = ['label', 'query', 'age', 'action'].map(
+                header => values[row][header_map[header]]);
+            if (label.length === 0 && query.length === 0 && age.length === 0 && action.length === 0) {
+                continue;
+            }
+            result.push(new Retention(row + 1, label, query, age, action));
+        }
+        return result;
+    }
+
+    public static getRetentionValues(): string[][] {
+        return Utils.withTimer("GetRetentionValues", () => Rule.getOptionalSheetValues(Retention.SHEET_NAME));
+    }
+
+    // Applies retention of all rows up to max_retention_threads of config in total, or only describes what would be
+    // applied if it's a dry run. Returns the summary of each row.
+    public static applyRetention(dry_run: boolean = false): string {
+        const session_data = new SessionData();
+        const all_retention = Retention.parseRetention(Retention.getRetentionValues());
+        const search = (query: string, start: number, max: number) => GmailApp.search(query, start, max);
+
+        // Threads matching more than one row get all their actions in one batch
+        const thread_data_map = new Map<string, ThreadData>();
+        const summaries: string[] = [];
+        let remaining = session_data.config.max_retention_threads;
+        for (const retention of all_retention) {
+            const threads = Utils.withTimer(`findExpiredThreads row ${retention.row}`,
+                () => retention.findExpiredThreads(search, session_data.processing_start_time, remaining));
+            remaining -= threads.length;
+            summaries.push(`${retention}: ${threads.length} threads`
+                + (dry_run ? threads.slice(0, 5).map(thread => `\n  ${thread.getFirstMessageSubject()}`).join('') : ''));
+            if (!dry_run) {
+                for (const thread of threads) {
+                    let thread_data = thread_data_map.get(thread.getId());
+                    if (thread_data === undefined) {
+                        thread_data = new ThreadData(session_data, thread);
+                        thread_data_map.set(thread.getId(), thread_data);
+                    }
+                    thread_data.thread_action.mergeFrom(retention.getThreadAction());
+                }
+            }
+            if (remaining <= 0) {
+                summaries.push(`Reached max_retention_threads, the rest are left to the next run.`);
+                break;
+            }
+        }
+
+        const all_thread_data = Array.from(thread_data_map.values());
+        for (let start = 0; start < all_thread_data.length; start += Retention.BATCH_SIZE) {
+            Utils.withTimer("applyRetention", () => ThreadData.applyActions(
+                session_data, all_thread_data.slice(start, start + Retention.BATCH_SIZE)));
+        }
+        const summary = summaries.join('\n');
+        Logger.log(`${dry_run ? 'Retention preview' : 'Applied retention'}:\n${summary}`);
+        return summary;
+    }
+
+    public static testRetention(it: Function, expect: Function) {
+        function retention(rows: string[][]): Retention[] {
+            return Retention.parseRetention([["label", "query", "age", "action"], ...rows]);
+        }
+
+        function threads_of(last_message_days: number[]): GoogleAppsScript.Gmail.GmailThread[] {
+            return last_message_days.map((days, index) => Object.assign(Mocks.getMockThreadOfMessages(), {
+                getId: () => `${index}`,
+                getLastMessageDate: () => new Date(Date.UTC(2020, 0, 31 - days)),
+            }));
+        }
+
+        it('Builds search queries', () => {
+            expect(retention([
+                ["ci/build alerts", "", "30d", "archive"],
+                ["", "from:news@corp.com", "2w", "Trash"],
+                ["alerts", "", "12h", "mark_read"],
+                ["ci", "", "7d", "remove_label"],
+            ]).map(retention => retention.getSearchQuery())).toEqual([
+                'label:ci-build-alerts older_than:30d in:inbox',
+                '(from:news@corp.com) older_than:14d',
+                'label:alerts is:unread',
+                'label:ci older_than:7d',
+            ]);
+        })
+        it('Converts to thread actions', () => {
+            const [archive, trash, mark_read, remove_label] = retention([
+                ["a", "", "1d", "archive"],
+                ["a", "", "1d", "trash"],
+                ["a", "", "1d", "mark_read"],
+                ["a/b", "", "1d", "remove_label"],
+            ]).map(retention => retention.getThreadAction());
+
+            expect(archive.move_to).toBe(InboxActionType.ARCHIVE);
+            expect(trash.move_to).toBe(InboxActionType.TRASH);
+            expect(mark_read.read).toBe(BooleanActionType.ENABLE);
+            expect(remove_label.removed_label_names).toEqual(new Set(['a/b']));
+        })
+        it('Skips empty rows', () => {
+            expect(retention([["", "", "", ""], ["a", "", "1d", "archive"]]).map(retention => retention.row))
+                .toEqual([3]);
+        })
+        it('Fails with invalid retention', () => {
+            expect(() => retention([["a", "from:a@corp.com", "1d", "archive"]])).toThrow();
+            expect(() => retention([["", "", "1d", "archive"]])).toThrow();
+            expect(() => retention([["a", "", "30", "archive"]])).toThrow();
+            expect(() => retention([["a", "", "1d", "delete"]])).toThrow();
+            expect(() => retention([["", "from:a@corp.com", "1d", "remove_label"]])).toThrow();
+            expect(() => Retention.parseRetention([["label", "age", "action"]])).toThrow();
+        })
+        it('Pages through search results for threads of old latest messages', () => {
+            const all_threads = threads_of(Array.from(Array(250), (_, index) => index % 2 === 0 ? 40 : 10));
+            const searches: string[] = [];
+            const search = (query: string, start: number, max: number) => {
+                searches.push(`${query} ${start} ${max}`);
+                return all_threads.slice(start, start + max);
+            };
+            const [expiring] = retention([["ci", "", "30d", "archive"]]);
+            const now = new Date(Date.UTC(2020, 0, 31));
+
+            expect(expiring.findExpiredThreads(search, now, 1000).length).toBe(125);
+            expect(searches).toEqual([
+                'label:ci older_than:30d in:inbox 0 100',
+                'label:ci older_than:30d in:inbox 100 100',
+                'label:ci older_than:30d in:inbox 200 100',
+            ]);
+
+            searches.length = 0;
+            expect(expiring.findExpiredThreads(search, now, 60).map(thread => thread.getId()))
+                .toEqual(Array.from(Array(60), (_, index) => `${index * 2}`));
+            expect(searches.length).toBe(2);
+        })
+    }
+}
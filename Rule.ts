@@ -17,18 +17,39 @@
 import Utils from './utils';
 import Condition from "./Condition";
 import Mocks from "./Mocks";
+import {NamedConditions} from "./NamedConditions";
+import {ConditionParseError} from "./ConditionParser";
+import {DeferredAction} from './DeferredAction';
 import ThreadAction, {ActionAfterMatchType, BooleanActionType, InboxActionType} from './ThreadAction';
 
+// Whether the condition is evaluated against each message to process, or once against the latest message of thread
+export enum RuleScope {MESSAGE, THREAD}
+
 export class Rule {
 
+    // Columns that may be missing in sheet, for sheets created before they are added
+    private static OPTIONAL_HEADERS = [
+        'scope', 'remove_labels', 'star', 'mute', 'mark_spam', 'deferred_action', 'forward_to', 'reply_template',
+        'priority', 'digest'];
+
     public readonly condition: Condition;
     public readonly thread_action: Readonly<ThreadAction>;
     public readonly stage: number;
-
-    constructor(condition_str: string, thread_action: ThreadAction, stage: number) {
-        this.condition = new Condition(condition_str);
+    public readonly scope: RuleScope;
+    // 1-based row in sheet
+    public readonly row: number;
+    // Rules of higher priority win conflicting actions with merge policy "priority"
+    public readonly priority: number;
+
+    constructor(
+        condition_str: string, thread_action: ThreadAction, stage: number, row: number,
+        named_conditions: NamedConditions, scope: RuleScope = RuleScope.MESSAGE, priority: number = 0) {
+        this.condition = new Condition(condition_str, named_conditions);
         this.thread_action = thread_action;
         this.stage = stage;
+        this.row = row;
+        this.scope = scope;
+        this.priority = priority;
     }
 
     toString() {
@@ -51,6 +72,14 @@ export class Rule {
         return result;
     }
 
+    private static parsePriority(str: string): number {
+        if (str.trim().length === 0) {
+            return 0;
+        }
+        Utils.assert(/^-?\d+$/.test(str.trim()), `Unexpected priority: ${str}`);
+        return parseInt(str.trim());
+    }
+
     private static parseStringList(str: string, delimiter: string): string[] {
         if (str.length === 0) {
             return [];
@@ -86,60 +115,121 @@ export class Rule {
         return result;
     }
 
-    public static parseRules(values: string[][]): Rule[] {
-        const row_num = values.length;
-        const column_num = values[0].length;
+    private static parseRuleScope(str: string): RuleScope {
+        if (str.length === 0) {
+            return RuleScope.MESSAGE;
+        }
+        const result = RuleScope[str.toUpperCase() as keyof typeof RuleScope];
+        Utils.assert(result !== undefined, `Can't parse scope value ${str}.`);
+        return result;
+    }
+
+    public static parseHeaderMap(header_row: string[]): { [key: string]: number } {
+        return Rule.parseSheetHeaderMap(header_row, [
+            'conditions', 'add_labels', 'move_to', 'mark_important', 'mark_read', 'stage', 'auto_label', 'disabled',
+            'action_after_match', ...Rule.OPTIONAL_HEADERS], 'rule', Rule.OPTIONAL_HEADERS);
+    }
 
-        // get header map from first row
-        const header_map: { [key: string]: number } = {
-            conditions: -1,
-            add_labels: -1,
-            move_to: -1,
-            mark_important: -1,
-            mark_read: -1,
-            stage: -1,
-            auto_label: -1,
-            disabled: -1,
-            action_after_match: -1,
-        };
-        for (let column = 0; column < column_num; column++) {
-            const name = values[0][column];
+    // Maps each header of a sheet to its column in the first row, or -1 if it's optional and missing.
+    // Headers are described by the kind of rows in errors, e.g. "Missing template header: body".
+    public static parseSheetHeaderMap(header_row: string[], header_names: string[], kind: string,
+                                      optional_header_names: string[] = []): { [key: string]: number } {
+        const header_map: { [key: string]: number } = {};
+        header_names.forEach(header_name => header_map[header_name] = -1);
+        header_row.forEach((name, column) => {
             if (!(name in header_map)) {
-                throw `Invalid rule header:"${name}"`;
+                throw `Invalid ${kind} header:"${name}"`;
             }
             header_map[name] = column;
-        }
+        });
 
         // Ensure all expected headers exist
         for (const header_name in header_map) {
-            if (header_map[header_name] < 0) {
-                throw `Missing rule header: ${header_name}`;
+            if (header_map[header_name] < 0 && optional_header_names.indexOf(header_name) < 0) {
+                throw `Missing ${kind} header: ${header_name}`;
             }
         }
+        return header_map;
+    }
+
+    // Trimmed values of a sheet that may not exist, or no values if it doesn't
+    public static getOptionalSheetValues(sheet_name: string): string[][] {
+        const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(sheet_name);
+        if (sheet === null || sheet.getLastRow() === 0) {
+            return [];
+        }
+        return sheet.getRange(1, 1, sheet.getLastRow(), sheet.getLastColumn())
+            .getDisplayValues()
+            .map(row => row.map(cell => cell.trim()));
+    }
 
-        // get rest rows
-        let rules = [];
-        for (let row = 1; row < row_num; row++) {
-            const condition_str = values[row][header_map["conditions"]];
-            if (condition_str.length === 0) {
-                continue;
+    private static getOptionalValue(row: string[], header_map: { [key: string]: number }, header: string): string {
+        return header_map[header] >= 0 ? row[header_map[header]] : '';
+    }
+
+    // Parses a row of sheet at 0-based index, returns null if it's empty or disabled.
+    public static parseRule(
+        values: string[][], row: number, header_map: { [key: string]: number },
+        named_conditions: NamedConditions): Rule | null {
+        const condition_str = values[row][header_map["conditions"]];
+        if (condition_str.length === 0) {
+            return null;
+        }
+        const disabled = Rule.parseBooleanValue(values[row][header_map["disabled"]]);
+        if (disabled) {
+            return null;
+        }
+
+        const thread_action = new ThreadAction();
+        thread_action.addLabels(Rule.parseStringList(values[row][header_map["add_labels"]], ","));
+        thread_action.removeLabels(
+            Rule.parseStringList(Rule.getOptionalValue(values[row], header_map, "remove_labels"), ","));
+        thread_action.move_to = Rule.parseInboxActionType(values[row][header_map["move_to"]]);
+        thread_action.important = Rule.parseBooleanActionType(values[row][header_map["mark_important"]]);
+        thread_action.read = Rule.parseBooleanActionType(values[row][header_map["mark_read"]]);
+        thread_action.auto_label = Rule.parseBooleanActionType(values[row][header_map["auto_label"]]);
+        thread_action.star = Rule.parseBooleanActionType(Rule.getOptionalValue(values[row], header_map, "star"));
+        thread_action.mute = Rule.parseBooleanActionType(Rule.getOptionalValue(values[row], header_map, "mute"));
+        thread_action.mark_spam = Rule.parseBooleanActionType(
+            Rule.getOptionalValue(values[row], header_map, "mark_spam"));
+        thread_action.digest = Rule.parseBooleanActionType(Rule.getOptionalValue(values[row], header_map, "digest"));
+        Rule.parseStringList(Rule.getOptionalValue(values[row], header_map, "forward_to"), ",").forEach(address => {
+            Utils.assert(/^[^\s@]+@[^\s@]+$/.test(address), `Invalid address to forward to: ${address}`);
+            thread_action.forward_to.add(address.toLowerCase());
+        });
+        thread_action.reply_template = Rule.getOptionalValue(values[row], header_map, "reply_template").trim();
+        const actionAfterMatchStr = values[row][header_map["action_after_match"]] || '';
+        thread_action.action_after_match = Rule.parseActionAfterMatchType(actionAfterMatchStr);
+
+        const stage = Rule.parseNumberValue(values[row][header_map["stage"]]);
+        const scope = Rule.parseRuleScope(Rule.getOptionalValue(values[row], header_map, "scope"));
+        const priority = Rule.parsePriority(Rule.getOptionalValue(values[row], header_map, "priority"));
+        const deferred_action_str = Rule.getOptionalValue(values[row], header_map, "deferred_action").trim();
+        try {
+            if (deferred_action_str.length > 0) {
+                const deferred_action = new DeferredAction(deferred_action_str, named_conditions);
+                thread_action.deferred_actions.set(deferred_action.source, deferred_action);
             }
-            const disabled = Rule.parseBooleanValue(values[row][header_map["disabled"]]);
-            if (disabled) {
-                continue;
+            return new Rule(condition_str, thread_action, stage, row + 1, named_conditions, scope, priority);
+        } catch (e) {
+            if (e instanceof ConditionParseError) {
+                throw e.withLocation('rules', row + 1);
             }
+            throw e;
+        }
+    }
 
-            const thread_action = new ThreadAction();
-            thread_action.addLabels(Rule.parseStringList(values[row][header_map["add_labels"]], ","));
-            thread_action.move_to = Rule.parseInboxActionType(values[row][header_map["move_to"]]);
-            thread_action.important = Rule.parseBooleanActionType(values[row][header_map["mark_important"]]);
-            thread_action.read = Rule.parseBooleanActionType(values[row][header_map["mark_read"]]);
-            thread_action.auto_label = Rule.parseBooleanActionType(values[row][header_map["auto_label"]]);
-            const actionAfterMatchStr = values[row][header_map["action_after_match"]] || '';
-            thread_action.action_after_match = Rule.parseActionAfterMatchType(actionAfterMatchStr);
+    public static parseRules(values: string[][], named_conditions: NamedConditions = new NamedConditions()): Rule[] {
+        // get header map from first row
+        const header_map = Rule.parseHeaderMap(values[0]);
 
-            const stage = Rule.parseNumberValue(values[row][header_map["stage"]]);
-            rules.push(new Rule(condition_str, thread_action, stage));
+        // get rest rows
+        let rules = [];
+        for (let row = 1; row < values.length; row++) {
+            const rule = Rule.parseRule(values, row, header_map, named_conditions);
+            if (rule !== null) {
+                rules.push(rule);
+            }
         }
 
         // sort by stage
@@ -148,8 +238,8 @@ export class Rule {
         return rules;
     }
 
-    public static getRules(): Rule[] {
-        const values: string[][] = Utils.withTimer("GetRuleValues", () => {
+    public static getRuleValues(): string[][] {
+        return Utils.withTimer("GetRuleValues", () => {
             const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName('rules');
             if (sheet === null) {
                 throw "Active sheet 'rules' not found";
@@ -160,7 +250,12 @@ export class Rule {
                 .getDisplayValues()
                 .map(row => row.map(cell => cell.trim()));
         });
-        const rules = Rule.parseRules(values);
+    }
+
+    public static getRules(): Rule[] {
+        const named_conditions = Utils.withTimer("getNamedConditions", () => NamedConditions.getNamedConditions());
+        const values = Rule.getRuleValues();
+        const rules = Rule.parseRules(values, named_conditions);
         console.log(`Parsed rules:\n${rules.map(rule => rule.toString()).join("\n---\n")}`);
         return rules;
     }
@@ -239,5 +334,174 @@ export class Rule {
             expect(rules[2].stage).toBe(15);
         })
 
+        it('Loads Rules with named conditions', () => {
+            const sheet = Mocks.getMockTestSheet([
+                {
+                    conditions: '(and (ref team) (subject /alert/))',
+                    add_labels: 'abc',
+                    stage: "5",
+                },
+                {
+                    conditions: '(ref team)',
+                    add_labels: 'xyz',
+                    stage: "10",
+                },
+            ]);
+            const named_conditions = NamedConditions.parseNamedConditions([
+                ["name", "conditions"],
+                ["team", "(or (from alice@corp.com) (from bob@corp.com))"],
+            ]);
+
+            const rules = Rule.parseRules(sheet, named_conditions);
+
+            expect(rules.length).toBe(2);
+        })
+
+        it('Fails with location of invalid condition', () => {
+            const sheet = Mocks.getMockTestSheet([
+                {
+                    conditions: '(from abc@gmail.com)',
+                    add_labels: 'abc',
+                },
+                {
+                    conditions: '(or\n  (from abc@gmail.com)\n  (subject "abc))',
+                    add_labels: 'abc',
+                },
+            ]);
+
+            try {
+                Rule.parseRules(sheet);
+                expect(true).toBe(false);
+            } catch (e) {
+                expect(e instanceof ConditionParseError).toBe(true);
+                expect((e as ConditionParseError).row).toBe(3);
+                expect((e as ConditionParseError).line).toBe(3);
+                expect((e as ConditionParseError).column).toBe(12);
+            }
+        })
+
+        it('Fails with undefined named condition', () => {
+            const sheet = Mocks.getMockTestSheet([
+                {
+                    conditions: '(ref team)',
+                    add_labels: 'abc',
+                },
+            ]);
+
+            expect(() => {Rule.parseRules(sheet)}).toThrow();
+        })
+
+        it('Loads Rules without optional columns', () => {
+            const headers = Mocks.getMockTestSheetHeaders().filter(
+                header => ['scope', 'remove_labels', 'star', 'mute', 'mark_spam', 'deferred_action', 'forward_to',
+                    'reply_template', 'priority', 'digest'].indexOf(header) < 0);
+            const sheet = Mocks.getMockTestSheet([{conditions: '(from abc@gmail.com)', add_labels: 'abc'}], headers);
+
+            const rules = Rule.parseRules(sheet);
+
+            expect(rules.length).toBe(1);
+            expect(rules[0].scope).toBe(RuleScope.MESSAGE);
+        })
+
+        it('Loads Rule with thread scope', () => {
+            const sheet = Mocks.getMockTestSheet([{conditions: '(from abc@gmail.com)', scope: 'Thread'}]);
+
+            expect(Rule.parseRules(sheet)[0].scope).toBe(RuleScope.THREAD);
+        })
+
+        it('Loads Rule removing labels', () => {
+            const sheet = Mocks.getMockTestSheet([{conditions: '(from abc@gmail.com)', remove_labels: 'todo/*, later'}]);
+
+            const rules = Rule.parseRules(sheet);
+
+            expect(rules[0].thread_action.removed_label_names).toEqual(new Set(['todo/*', 'later']));
+            expect(rules[0].thread_action.hasAnyAction()).toBe(true);
+        })
+
+        it('Loads Rule starring, muting and marking spam', () => {
+            const sheet = Mocks.getMockTestSheet([
+                {conditions: '(from vip@gmail.com)', star: 'true'},
+                {conditions: '(from noisy@gmail.com)', mute: 'yes', star: 'false'},
+                {conditions: '(from junk@gmail.com)', mark_spam: 'true'},
+            ]);
+
+            const rules = Rule.parseRules(sheet);
+
+            expect(rules.map(rule => rule.thread_action.star)).toEqual(
+                [BooleanActionType.ENABLE, BooleanActionType.DISABLE, BooleanActionType.DEFAULT]);
+            expect(rules.map(rule => rule.thread_action.mute)).toEqual(
+                [BooleanActionType.DEFAULT, BooleanActionType.ENABLE, BooleanActionType.DEFAULT]);
+            expect(rules.map(rule => rule.thread_action.mark_spam)).toEqual(
+                [BooleanActionType.DEFAULT, BooleanActionType.DEFAULT, BooleanActionType.ENABLE]);
+        })
+
+        it('Loads Rule with deferred action', () => {
+            const sheet = Mocks.getMockTestSheet([
+                {conditions: '(from abc@gmail.com)', move_to: 'archive', deferred_action: '3d inbox (is-unread)'},
+                {conditions: '(from xyz@gmail.com)', deferred_action: '30d trash'},
+            ]);
+
+            const rules = Rule.parseRules(sheet);
+
+            expect(Array.from(rules[0].thread_action.deferred_actions.keys())).toEqual(['3d inbox (is-unread)']);
+            expect(rules[1].thread_action.hasAnyAction()).toBe(true);
+        })
+
+        it('Fails with invalid deferred action', () => {
+            const sheet = Mocks.getMockTestSheet([{conditions: '(from abc@gmail.com)', deferred_action: 'inbox later'}]);
+
+            expect(() => {Rule.parseRules(sheet)}).toThrow();
+        })
+
+        it('Loads Rule forwarding and replying', () => {
+            const sheet = Mocks.getMockTestSheet([
+                {conditions: '(subject invoice)', forward_to: 'AP@corp.com, audit@corp.com'},
+                {conditions: '(to support@corp.com)', reply_template: ' ack '},
+            ]);
+
+            const rules = Rule.parseRules(sheet);
+
+            expect(rules[0].thread_action.forward_to).toEqual(new Set(['ap@corp.com', 'audit@corp.com']));
+            expect(rules[1].thread_action.reply_template).toBe('ack');
+            expect(rules[1].thread_action.hasAnyAction()).toBe(true);
+        })
+
+        it('Fails with invalid address to forward to', () => {
+            const sheet = Mocks.getMockTestSheet([{conditions: '(subject invoice)', forward_to: 'accounting'}]);
+
+            expect(() => {Rule.parseRules(sheet)}).toThrow();
+        })
+
+        it('Loads Rule recording for digest', () => {
+            const sheet = Mocks.getMockTestSheet([
+                {conditions: '(list team@corp.com)', move_to: 'archive', digest: 'true'},
+                {conditions: '(list all@corp.com)', digest: 'yes'},
+            ]);
+
+            const rules = Rule.parseRules(sheet);
+
+            expect(rules.map(rule => rule.thread_action.digest)).toEqual(
+                [BooleanActionType.ENABLE, BooleanActionType.ENABLE]);
+            expect(rules[1].thread_action.hasAnyAction()).toBe(true);
+        })
+
+        it('Loads Rule with priority', () => {
+            const sheet = Mocks.getMockTestSheet([
+                {conditions: '(from abc@gmail.com)', priority: '10'},
+                {conditions: '(from xyz@gmail.com)', priority: '-1'},
+                {conditions: '(from def@gmail.com)'},
+            ]);
+
+            expect(Rule.parseRules(sheet).map(rule => rule.priority)).toEqual([10, -1, 0]);
+            expect(() => {Rule.parseRules(Mocks.getMockTestSheet([{conditions: '(from a@b.com)', priority: 'high'}]))})
+                .toThrow();
+        })
+
+        it('Fails with invalid scope', () => {
+            const sheet = Mocks.getMockTestSheet([{conditions: '(from abc@gmail.com)', scope: 'mailbox'}]);
+
+            expect(() => {Rule.parseRules(sheet)}).toThrow();
+        })
+
     }
 }
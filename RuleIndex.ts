@@ -0,0 +1,120 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Mocks from './Mocks';
+import {Rule, RuleScope} from './Rule';
+import {MessageData} from './ThreadData';
+
+/**
+ * Rules by the exact sender, list and receiver addresses their conditions require, to skip rules which can't match
+ * a message without evaluating them. Rules not limited to exact addresses are candidates of every message.
+ */
+export class RuleIndex {
+
+    // Keys of addresses in value, see Condition.getAddressKeys.
+    // An address condition matches where the value starts or has "<", until its end or ">".
+    private static getValueKeys(field: string, value: string): string[] {
+        return value.split('<').map(part => `${field}:${MessageData.normalizeAddress(part.split('>')[0])}`);
+    }
+
+    private static getMessageKeys(message_data: MessageData): string[] {
+        return ([] as string[]).concat(
+            RuleIndex.getValueKeys('from', message_data.from),
+            RuleIndex.getValueKeys('list', message_data.list),
+            ...message_data.receivers.map(receiver => RuleIndex.getValueKeys('receiver', receiver)));
+    }
+
+    private readonly rules_of_key = new Map<string, Rule[]>();
+    private readonly unindexed_rules: Rule[] = [];
+
+    constructor(rules: Rule[]) {
+        for (const rule of rules) {
+            // Thread scope rules are evaluated against another message
+            const keys = rule.scope === RuleScope.MESSAGE ? rule.condition.getAddressKeys() : undefined;
+            if (keys === undefined) {
+                this.unindexed_rules.push(rule);
+                continue;
+            }
+            for (const key of keys) {
+                const key_rules = this.rules_of_key.get(key);
+                if (key_rules === undefined) {
+                    this.rules_of_key.set(key, [rule]);
+                } else {
+                    key_rules.push(rule);
+                }
+            }
+        }
+    }
+
+    // Rules that may match the message
+    getCandidates(message_data: MessageData): Set<Rule> {
+        const candidates = new Set<Rule>(this.unindexed_rules);
+        for (const key of RuleIndex.getMessageKeys(message_data)) {
+            for (const rule of this.rules_of_key.get(key) || []) {
+                candidates.add(rule);
+            }
+        }
+        return candidates;
+    }
+
+    public static testRuleIndex(it: Function, expect: Function) {
+        function candidate_rows(sheet_rows: { [key: string]: string }[], message: Partial<GoogleAppsScript.Gmail.GmailMessage>): number[] {
+            const rules = Rule.parseRules(Mocks.getMockTestSheet(sheet_rows));
+            const message_data = new MessageData(Mocks.getMockMessage(message), 'UTC');
+            const candidates = new RuleIndex(rules).getCandidates(message_data);
+            return rules.filter(rule => candidates.has(rule)).map(rule => rule.row);
+        }
+
+        it('Skips rules of other addresses', () => {
+            expect(candidate_rows([
+                {conditions: '(from abc@gmail.com)'},
+                {conditions: '(from xyz@gmail.com)'},
+                {conditions: '(list abc@gmail.com)'},
+                {conditions: '(to abc@gmail.com)'},
+            ], {getFrom: () => 'Abc <ABC+news@gmail.com>'})).toEqual([2]);
+        })
+        it('Keeps rules not limited to exact addresses', () => {
+            expect(candidate_rows([
+                {conditions: '(from /xyz/)'},
+                {conditions: '(from gmail.com)'},
+                {conditions: '(subject abc@gmail.com)'},
+                {conditions: '(not (from xyz@gmail.com))'},
+                {conditions: '(or (from xyz@gmail.com) (subject alert))'},
+                {conditions: '(any-message (from xyz@gmail.com))'},
+                {conditions: '(from xyz@gmail.com)', scope: 'thread'},
+            ], {getFrom: () => 'abc@gmail.com'})).toEqual([2, 3, 4, 5, 6, 7, 8]);
+        })
+        it('Indexes and and or by their sub-conditions', () => {
+            expect(candidate_rows([
+                {conditions: '(and (subject alert) (from "xyz@gmail.com"))'},
+                {conditions: '(and (subject alert) (receiver abc@gmail.com))'},
+                {conditions: '(or (from xyz@gmail.com) (cc abc@gmail.com))'},
+                {conditions: '(or (from xyz@gmail.com) (bcc def@gmail.com))'},
+            ], {getFrom: () => 'def@gmail.com', getCc: () => 'abc@gmail.com'})).toEqual([3, 4]);
+        })
+        it('Indexes list and receivers', () => {
+            expect(candidate_rows([
+                {conditions: '(list team@corp.com)'},
+                {conditions: '(receiver team@corp.com)'},
+                {conditions: '(to me@corp.com)'},
+                {conditions: '(from team@corp.com)'},
+            ], {
+                getTo: () => 'Me <me@corp.com>',
+                getRawContent: () => 'Mailing-list: list team@corp.com; contact team-admin@corp.com\r\n\r\n',
+            })).toEqual([2, 3, 4]);
+        })
+    }
+}
@@ -0,0 +1,281 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Mocks from './Mocks';
+import {Rule, RuleScope} from './Rule';
+import {NamedConditions} from './NamedConditions';
+import {ConditionParseError} from './ConditionParser';
+import {ActionAfterMatchType, InboxActionType} from './ThreadAction';
+
+export enum LintType {INVALID_RULE, SHADOWED, NO_ACTION, DUPLICATE_CONDITION, CONFLICTING_MOVE_TO}
+
+export interface LintFinding {
+    readonly sheet: string;
+    // 1-based row in sheet, 0 if not about a row
+    readonly row: number;
+    readonly type: LintType;
+    readonly message: string;
+}
+
+/**
+ * Static analysis of rules, following the order Processor applies them.
+ */
+export class RuleLinter {
+
+    private static SHEET_NAME = 'lint';
+
+    private static errorFinding(e: unknown, default_sheet: string, default_row: number): LintFinding {
+        if (e instanceof ConditionParseError) {
+            return {
+                sheet: e.sheet || default_sheet,
+                row: e.row || default_row,
+                type: LintType.INVALID_RULE,
+                message: e.message,
+            };
+        }
+        return {sheet: default_sheet, row: default_row, type: LintType.INVALID_RULE, message: String(e)};
+    }
+
+    // Returns the earlier rule that always stops processing before reaching the rule, if any
+    private static findShadowingRule(rules: Rule[], index: number): Rule | undefined {
+        const rule = rules[index];
+        for (let i = 0; i < index; i++) {
+            const earlier = rules[i];
+            // Rules of different scopes are evaluated against different messages
+            if (earlier.scope !== rule.scope || !rule.condition.implies(earlier.condition)) {
+                continue;
+            }
+            switch (earlier.thread_action.action_after_match) {
+                case ActionAfterMatchType.DONE: {
+                    // A NEXT_STAGE rule before it in the same stage may skip it and continue to later stages
+                    const may_skip = rules.slice(0, i).some(other =>
+                        other.stage === earlier.stage
+                        && other.thread_action.action_after_match === ActionAfterMatchType.NEXT_STAGE);
+                    if (earlier.stage === rule.stage || !may_skip) {
+                        return earlier;
+                    }
+                    break;
+                }
+                case ActionAfterMatchType.NEXT_STAGE:
+                    if (earlier.stage === rule.stage) {
+                        return earlier;
+                    }
+                    break;
+                case ActionAfterMatchType.DEFAULT:
+                case ActionAfterMatchType.FINISH_STAGE: {
+                    // A NEXT_STAGE rule in the same stage may let processing continue to later stages
+                    const may_continue = rules.some(other =>
+                        other.stage === earlier.stage
+                        && other.thread_action.action_after_match === ActionAfterMatchType.NEXT_STAGE);
+                    if (earlier.stage < rule.stage && !may_continue) {
+                        return earlier;
+                    }
+                    break;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    public static lintRules(rules: Rule[]): LintFinding[] {
+        const findings: LintFinding[] = [];
+        const add = (rule: Rule, type: LintType, message: string) =>
+            findings.push({sheet: 'rules', row: rule.row, type, message});
+
+        const first_rule_of_condition = new Map<string, Rule>();
+        const first_rule_of_move_to = new Map<string, Rule>();
+        rules.forEach((rule, index) => {
+            const shadowing_rule = RuleLinter.findShadowingRule(rules, index);
+            if (shadowing_rule !== undefined) {
+                add(rule, LintType.SHADOWED,
+                    `Rule never applies, since row ${shadowing_rule.row} (stage ${shadowing_rule.stage}, `
+                    + `${ActionAfterMatchType[shadowing_rule.thread_action.action_after_match]}) matches first`);
+            }
+
+            if (!rule.thread_action.hasAnyAction()) {
+                add(rule, LintType.NO_ACTION, `Rule has no action`);
+            }
+
+            const canonical = `${RuleScope[rule.scope]} ${rule.condition.canonical()}`;
+            const same_condition_rule = first_rule_of_condition.get(canonical);
+            if (same_condition_rule === undefined) {
+                first_rule_of_condition.set(canonical, rule);
+            } else {
+                add(rule, LintType.DUPLICATE_CONDITION, `Rule has the same condition as row ${same_condition_rule.row}`);
+            }
+
+            const move_to = rule.thread_action.move_to;
+            if (move_to !== InboxActionType.DEFAULT) {
+                const same_stage_rule = first_rule_of_move_to.get(`${rule.stage}`);
+                if (same_stage_rule === undefined) {
+                    first_rule_of_move_to.set(`${rule.stage}`, rule);
+                } else if (same_stage_rule.thread_action.move_to !== move_to) {
+                    add(rule, LintType.CONFLICTING_MOVE_TO,
+                        `Rule moves to ${InboxActionType[move_to]}, but row ${same_stage_rule.row} in the same stage `
+                        + `moves to ${InboxActionType[same_stage_rule.thread_action.move_to]}, resolved by merge_policy`);
+                }
+            }
+        });
+        return findings;
+    }
+
+    // Parses each row separately to report all invalid ones, then lints the valid ones.
+    public static lint(rule_values: string[][], named_condition_values: string[][]): LintFinding[] {
+        const findings: LintFinding[] = [];
+
+        let named_conditions = new NamedConditions();
+        try {
+            named_conditions = NamedConditions.parseNamedConditions(named_condition_values);
+            named_conditions.parseAll();
+        } catch (e) {
+            findings.push(RuleLinter.errorFinding(e, 'conditions', 0));
+        }
+
+        let header_map: { [key: string]: number };
+        try {
+            header_map = Rule.parseHeaderMap(rule_values[0]);
+        } catch (e) {
+            findings.push(RuleLinter.errorFinding(e, 'rules', 1));
+            return findings;
+        }
+
+        const rules: Rule[] = [];
+        for (let row = 1; row < rule_values.length; row++) {
+            try {
+                const rule = Rule.parseRule(rule_values, row, header_map, named_conditions);
+                if (rule !== null) {
+                    rules.push(rule);
+                }
+            } catch (e) {
+                findings.push(RuleLinter.errorFinding(e, 'rules', row + 1));
+            }
+        }
+        rules.sort((a: Rule, b: Rule) => a.stage - b.stage);
+
+        return findings.concat(RuleLinter.lintRules(rules));
+    }
+
+    public static lintToSheet() {
+        const findings = RuleLinter.lint(Rule.getRuleValues(), NamedConditions.getNamedConditionValues());
+
+        const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+        const sheet = spreadsheet.getSheetByName(RuleLinter.SHEET_NAME)
+            || spreadsheet.insertSheet(RuleLinter.SHEET_NAME);
+        sheet.clearContents();
+        const rows = [["sheet", "row", "type", "message"]].concat(
+            findings.map(finding => [finding.sheet, `${finding.row}`, LintType[finding.type], finding.message]));
+        sheet.getRange(1, 1, rows.length, rows[0].length).setValues(rows);
+        Logger.log(`Found ${findings.length} problems in rules.`);
+        sheet.activate();
+    }
+
+    public static testRuleLinter(it: Function, expect: Function) {
+        const named_header = ["name", "conditions"];
+
+        function lint_types(rows: { [key: string]: string }[], named_rows: string[][] = []): string[] {
+            return RuleLinter.lint(Mocks.getMockTestSheet(rows), [named_header, ...named_rows])
+                .map(finding => `${finding.row} ${LintType[finding.type]}`);
+        }
+
+        it('Finds nothing in valid rules', () => {
+            expect(lint_types([
+                {conditions: '(from abc@gmail.com)', add_labels: 'abc', stage: '1'},
+                {conditions: '(from def@gmail.com)', add_labels: 'def', stage: '1'},
+                {conditions: '(subject /.*/)', add_labels: 'others', stage: '2'},
+            ])).toEqual([]);
+        })
+        it('Finds rule shadowed by earlier stage', () => {
+            expect(lint_types([
+                {conditions: '(from abc@gmail.com)', add_labels: 'abc', stage: '1'},
+                {conditions: '(and (from abc@gmail.com) (subject alert))', add_labels: 'alert', stage: '2'},
+            ])).toEqual(['3 SHADOWED']);
+        })
+        it('Does not find rule in the same stage shadowed', () => {
+            expect(lint_types([
+                {conditions: '(from abc@gmail.com)', add_labels: 'abc', stage: '1'},
+                {conditions: '(and (from abc@gmail.com) (subject alert))', add_labels: 'alert', stage: '1'},
+            ])).toEqual([]);
+        })
+        it('Does not find rule shadowed with NEXT_STAGE', () => {
+            expect(lint_types([
+                {conditions: '(from abc@gmail.com)', add_labels: 'abc', stage: '1', action_after_match: 'next_stage'},
+                {conditions: '(or (from abc@gmail.com) (from def@gmail.com))', add_labels: 'alert', stage: '2'},
+            ])).toEqual([]);
+        })
+        it('Finds rule shadowed by DONE catch-all in the same stage', () => {
+            expect(lint_types([
+                {conditions: '(subject //)', move_to: 'archive', stage: '1', action_after_match: 'done'},
+                {conditions: '(from abc@gmail.com)', add_labels: 'abc', stage: '1'},
+                {conditions: '(from def@gmail.com)', add_labels: 'def', stage: '3'},
+            ])).toEqual(['3 SHADOWED', '4 SHADOWED']);
+        })
+        it('Does not find rule shadowed by DONE rule skipped with NEXT_STAGE', () => {
+            expect(lint_types([
+                {conditions: '(subject x)', add_labels: 'x', stage: '1', action_after_match: 'next_stage'},
+                {conditions: '(subject /.*/)', move_to: 'archive', stage: '1', action_after_match: 'done'},
+                {conditions: '(subject x)', add_labels: 'y', stage: '2'},
+            ])).toEqual(['4 DUPLICATE_CONDITION']);
+        })
+        it('Finds rule shadowed through named condition', () => {
+            expect(lint_types([
+                {conditions: '(ref team)', add_labels: 'team', stage: '1'},
+                {conditions: '(from abc@gmail.com)', add_labels: 'abc', stage: '2'},
+            ], [["team", "(or (from abc@gmail.com) (from def@gmail.com))"]])).toEqual(['3 SHADOWED']);
+        })
+        it('Finds rule without action', () => {
+            expect(lint_types([
+                {conditions: '(from abc@gmail.com)', stage: '1'},
+            ])).toEqual(['2 NO_ACTION']);
+        })
+        it('Finds duplicate conditions', () => {
+            expect(lint_types([
+                {conditions: '(from abc@gmail.com)', add_labels: 'abc', stage: '1'},
+                {conditions: '(from  abc@gmail.com)', mark_read: 'true', stage: '1'},
+            ])).toEqual(['3 DUPLICATE_CONDITION']);
+        })
+        it('Finds conflicting move_to in the same stage', () => {
+            expect(lint_types([
+                {conditions: '(from abc@gmail.com)', move_to: 'inbox', stage: '1'},
+                {conditions: '(from def@gmail.com)', move_to: 'inbox', stage: '1'},
+                {conditions: '(subject alert)', move_to: 'archive', stage: '1'},
+                {conditions: '(subject other)', move_to: 'archive', stage: '2'},
+            ])).toEqual(['4 CONFLICTING_MOVE_TO']);
+        })
+        it('Finds all invalid rules and regexps', () => {
+            expect(lint_types([
+                {conditions: '(subject /[a-/)', add_labels: 'abc', stage: '1'},
+                {conditions: '(from abc@gmail.com)', add_labels: 'abc', move_to: 'nowhere', stage: '1'},
+                {conditions: '(ref unknown)', add_labels: 'abc', stage: '1'},
+                {conditions: '(from abc@gmail.com)', add_labels: 'abc', stage: '1'},
+            ])).toEqual(['2 INVALID_RULE', '3 INVALID_RULE', '4 INVALID_RULE']);
+        })
+        it('Finds invalid named condition', () => {
+            const findings = RuleLinter.lint(Mocks.getMockTestSheet([]), [named_header, ["a", "(form abc)"]]);
+            expect(findings.length).toBe(1);
+            expect(findings[0].sheet).toBe('conditions');
+            expect(findings[0].row).toBe(2);
+        })
+        it('Finds invalid header', () => {
+            expect(RuleLinter.lint([["conditions", "unknown"]], [])[0].type).toBe(LintType.INVALID_RULE);
+        })
+        it('Does not find rule shadowed by rule of different scope', () => {
+            expect(lint_types([
+                {conditions: '(from abc@gmail.com)', add_labels: 'abc', stage: '1', scope: 'thread'},
+                {conditions: '(from abc@gmail.com)', add_labels: 'abc', stage: '2'},
+            ])).toEqual([]);
+        })
+    }
+}
@@ -17,6 +17,8 @@
 import Utils from './utils';
 import {Config} from './Config'
 import {Rule} from './Rule'
+import {RuleIndex} from './RuleIndex'
+import {Templates} from './Templates'
 
 export class SessionData {
 
@@ -29,18 +31,30 @@ export class SessionData {
     }
 
     public readonly user_email: string;
+    public readonly time_zone: string;
     public readonly config: Config;
     public readonly labels: { [key: string]: GoogleAppsScript.Gmail.GmailLabel };
     public readonly rules: Rule[];
+    public readonly rule_index: RuleIndex;
+    public readonly templates: Templates;
 
     public readonly processing_start_time: Date;
     public readonly oldest_to_process: Date;
 
     constructor() {
         this.user_email = Utils.withTimer("getEmail", () => Session.getActiveUser().getEmail());
+        this.time_zone = Utils.withTimer("getTimeZone",
+            () => SpreadsheetApp.getActiveSpreadsheet().getSpreadsheetTimeZone());
         this.config = Utils.withTimer("getConfigs", () => Config.getConfig());
         this.labels = Utils.withTimer("getLabels", () => SessionData.getLabelMap());
         this.rules = Utils.withTimer("getRules", () => Rule.getRules());
+        this.rule_index = Utils.withTimer("indexRules", () => new RuleIndex(this.rules));
+        this.templates = Utils.withTimer("getTemplates", () => Templates.getTemplates());
+        for (const rule of this.rules) {
+            const template = rule.thread_action.reply_template;
+            Utils.assert(template.length === 0 || this.templates.has(template),
+                `Template ${template} of rule in row ${rule.row} is not defined`);
+        }
 
         this.processing_start_time = new Date();
         // Check back two processing intervals to make sure we checked all messages in the thread
@@ -0,0 +1,121 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Utils from './utils';
+import Mocks from './Mocks';
+import {MessageData} from './ThreadData';
+import {Rule} from './Rule';
+
+/**
+ * Reply bodies defined in the "templates" sheet, referenced by name in the "reply_template" column of rules.
+ *
+ * Placeholders {subject}, {from} and {list} are filled from the message replied to.
+ */
+export class Templates {
+
+    private static SHEET_NAME = 'templates';
+    private static PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+    private static PLACEHOLDERS: { [name: string]: (message_data: MessageData) => string } = {
+        subject: message_data => message_data.subject,
+        from: message_data => message_data.from,
+        list: message_data => message_data.list,
+    };
+
+    private readonly bodies: Map<string, string>;
+
+    constructor(bodies: Map<string, string> = new Map()) {
+        this.bodies = bodies;
+    }
+
+    has(name: string): boolean {
+        return this.bodies.has(name.trim().toLowerCase());
+    }
+
+    // Body of the template with placeholders filled from the message
+    fill(name: string, message_data: MessageData): string {
+        const body = this.bodies.get(name.trim().toLowerCase());
+        Utils.assert(body !== undefined, `Template ${name} is not defined in sheet '${Templates.SHEET_NAME}'`);
+        return body!.replace(Templates.PLACEHOLDER_PATTERN,
+            (_match, placeholder: string) => Templates.PLACEHOLDERS[placeholder](message_data));
+    }
+
+    public static parseTemplates(values: string[][]): Templates {
+        const bodies = new Map<string, string>();
+        if (values.length === 0) {
+            return new Templates(bodies);
+        }
+
+        const header_map = Rule.parseSheetHeaderMap(values[0], ['name', 'body'], 'template');
+
+        for (let row = 1; row < values.length; row++) {
+            const name = values[row][header_map["name"]].toLowerCase();
+            const body = values[row][header_map["body"]];
+            if (name.length === 0) {
+                continue;
+            }
+            Utils.assert(!bodies.has(name), `Template ${name} is defined more than once`);
+            Utils.assert(body.length > 0, `Template ${name} has empty body`);
+            const unknown_placeholders = (body.match(Templates.PLACEHOLDER_PATTERN) || []).filter(
+                placeholder => !(placeholder.slice(1, -1) in Templates.PLACEHOLDERS));
+            Utils.assert(unknown_placeholders.length === 0,
+                `Template ${name} has unknown placeholders: ${unknown_placeholders}`);
+            bodies.set(name, body);
+        }
+        return new Templates(bodies);
+    }
+
+    public static getTemplates(): Templates {
+        return Templates.parseTemplates(Templates.getTemplateValues());
+    }
+
+    public static getTemplateValues(): string[][] {
+        return Utils.withTimer("GetTemplateValues", () => Rule.getOptionalSheetValues(Templates.SHEET_NAME));
+    }
+
+    public static testTemplates(it: Function, expect: Function) {
+        function templates(rows: string[][]): Templates {
+            return Templates.parseTemplates([["name", "body"], ...rows]);
+        }
+
+        it('Fills placeholders from message', () => {
+            const message_data = new MessageData(Mocks.getMockMessage({
+                getFrom: () => 'Abc <abc@gmail.com>',
+                getSubject: () => 'Printer broken',
+                getRawContent: () => 'Mailing-list: list support@corp.com\r\n\r\n',
+            }), 'UTC');
+
+            expect(templates([["Ack", "Re {subject}: thanks {from}, via {list}. {subject}"]]).fill('ack', message_data))
+                .toBe('Re Printer broken: thanks Abc <abc@gmail.com>, via support@corp.com. Printer broken');
+        })
+        it('Finds templates case-insensitively', () => {
+            const ack = templates([["Ack", "Thanks"]]);
+
+            expect(ack.has('ACK')).toBe(true);
+            expect(ack.has('other')).toBe(false);
+        })
+        it('Fails with unknown placeholder', () => {
+            expect(() => templates([["ack", "Thanks {name}"]])).toThrow();
+        })
+        it('Fails with duplicate name', () => {
+            expect(() => templates([["ack", "Thanks"], ["ACK", "Thank you"]])).toThrow();
+        })
+        it('Fails with undefined template', () => {
+            const message_data = new MessageData(Mocks.getMockMessage(), 'UTC');
+
+            expect(() => templates([]).fill('ack', message_data)).toThrow();
+        })
+    }
+}
@@ -14,66 +14,288 @@
  * limitations under the License.
  */
 
+import Utils from './utils';
+import {MergePolicy} from './Config';
+import {DeferredAction} from './DeferredAction';
+
 export enum BooleanActionType {DEFAULT, ENABLE, DISABLE}
 
 export enum InboxActionType {DEFAULT, INBOX, ARCHIVE, TRASH}
 
 export enum ActionAfterMatchType {DEFAULT, DONE, FINISH_STAGE, NEXT_STAGE}
 
+// Values of placeholders in label templates, taken from the message matching the rule
+export interface LabelTemplateValues {
+    readonly list: string;
+    readonly from: string;
+    readonly from_domain: string;
+    readonly subject: string;
+    // Groups captured by the subject regexp of the rule, see Condition.getSubjectCaptures
+    readonly subject_captures: string[];
+}
+
+// Rule an action is merged from, see ThreadAction.mergeFrom
+export interface MergeSource {
+    // 1-based row of the rule in sheet, or 0 if it's not from a rule
+    readonly row: number;
+    // Higher priority wins with merge policy PRIORITY
+    readonly priority: number;
+}
+
+// An action of one rule overriding or overridden by another one, e.g. INBOX kept over ARCHIVE for move_to
+export interface ActionConflict {
+    readonly field: string;
+    readonly kept: string;
+    readonly kept_row: number;
+    readonly dropped: string;
+    readonly dropped_row: number;
+}
+
 export default class ThreadAction {
 
-    private static ACTION_CONFIG_TYPE_FIELD_NAMES: (keyof Pick<ThreadAction, "important" | "read" | "auto_label">)[] = ["important", "read", "auto_label"];
+    // E.x. {list}, {from_domain} or {subject:1}
+    private static LABEL_PLACEHOLDER_PATTERN = /\{(\w+)(?::(\d+))?\}/g;
+    private static LABEL_PLACEHOLDER_NAMES = ['list', 'from', 'from_domain', 'subject'];
+
+    private static ACTION_CONFIG_TYPE_FIELD_NAMES: (keyof Pick<ThreadAction, "important" | "read" | "auto_label" | "star" | "mute" | "mark_spam" | "digest">)[] =
+        ["important", "read", "auto_label", "star", "mute", "mark_spam", "digest"];
+
+    private static UNKNOWN_SOURCE: MergeSource = {row: 0, priority: 0};
+
+    // Ranks of values by how visible they keep the thread, for merge policy SAFEST, where higher is safer
+    private static SAFETY_RANKS: { [field: string]: number[] } = {
+        move_to: [0, 3, 2, 1],
+        important: [0, 2, 1],
+        read: [0, 1, 2],
+        auto_label: [0, 2, 1],
+        star: [0, 2, 1],
+        mute: [0, 1, 2],
+        mark_spam: [0, 1, 2],
+        digest: [0, 2, 1],
+    };
 
     public readonly label_names: Set<string> = new Set<string>();
+    // Labels to remove, where "foo/*" removes all nested labels of "foo". Labels added by the same action are kept.
+    public readonly removed_label_names: Set<string> = new Set<string>();
     public move_to: InboxActionType = InboxActionType.DEFAULT;
     public important: BooleanActionType = BooleanActionType.DEFAULT;
     public read: BooleanActionType = BooleanActionType.DEFAULT;
     public auto_label: BooleanActionType = BooleanActionType.DEFAULT;
+    // Stars the latest message, or unstars all messages
+    public star: BooleanActionType = BooleanActionType.DEFAULT;
+    // Keeps the thread out of inbox, including when processing later messages, until it's unmuted
+    public mute: BooleanActionType = BooleanActionType.DEFAULT;
+    // Reports the thread as spam, while disabling only overrides an earlier rule
+    public mark_spam: BooleanActionType = BooleanActionType.DEFAULT;
+    // Records the thread for the digest email, see Digest
+    public digest: BooleanActionType = BooleanActionType.DEFAULT;
+    // Addresses to forward the latest message to
+    public readonly forward_to: Set<string> = new Set<string>();
+    // Name of the template in "templates" sheet to reply the latest message with
+    public reply_template: string = '';
     public action_after_match: ActionAfterMatchType = ActionAfterMatchType.DEFAULT;
+    // Actions of rules overridden by, or kept over, later rules when merging
+    public readonly conflicts: ActionConflict[] = [];
+    // Rules setting move_to and other single value fields
+    private readonly sources = new Map<string, MergeSource>();
+    // Actions to schedule for the thread, by their sources
+    public readonly deferred_actions: Map<string, DeferredAction> = new Map<string, DeferredAction>();
 
     hasAnyAction() {
         return this.label_names.size > 0
+            || this.removed_label_names.size > 0
             || this.move_to != InboxActionType.DEFAULT
             || this.important != BooleanActionType.DEFAULT
-            || this.read != BooleanActionType.DEFAULT;
+            || this.read != BooleanActionType.DEFAULT
+            || this.star != BooleanActionType.DEFAULT
+            || this.mute != BooleanActionType.DEFAULT
+            || this.mark_spam != BooleanActionType.DEFAULT
+            || this.digest != BooleanActionType.DEFAULT
+            || this.deferred_actions.size > 0
+            || this.forward_to.size > 0
+            || this.reply_template.length > 0;
     }
 
-    addLabels(new_label_names: string[]) {
-        for (const label of new_label_names) {
+    static isLabelTemplate(label_name: string): boolean {
+        return label_name.search(ThreadAction.LABEL_PLACEHOLDER_PATTERN) >= 0;
+    }
+
+    private static validateLabelTemplate(template: string) {
+        template.replace(ThreadAction.LABEL_PLACEHOLDER_PATTERN, (placeholder, name: string, group?: string) => {
+            Utils.assert(ThreadAction.LABEL_PLACEHOLDER_NAMES.indexOf(name) >= 0,
+                `Unknown placeholder ${placeholder} in label ${template}`);
+            Utils.assert(group === undefined || name === 'subject',
+                `Only subject has capture groups, but found ${placeholder} in label ${template}`);
+            return placeholder;
+        });
+    }
+
+    // Fills placeholders with values made valid in a label name, so that "/" in values doesn't nest labels.
+    // Returns undefined if any value is empty, e.g. {list} of a message not from a mailing list.
+    static expandLabelTemplate(template: string, values: LabelTemplateValues): string | undefined {
+        let missing_value = false;
+        const label_name = template.replace(
+            ThreadAction.LABEL_PLACEHOLDER_PATTERN, (_placeholder, name: string, group?: string) => {
+                const value = group === undefined ? values[name as keyof Omit<LabelTemplateValues, 'subject_captures'>]
+                    : values.subject_captures[parseInt(group)];
+                const sanitized = (value || '').replace(/\//g, '-').replace(/\s+/g, ' ').trim();
+                missing_value = missing_value || sanitized.length === 0;
+                return sanitized;
+            });
+        if (missing_value) {
+            return undefined;
+        }
+        return label_name.split('/').map(part => part.trim()).filter(part => part.length > 0).join('/');
+    }
+
+    // Label templates are expanded with values if given, or kept as they are otherwise, e.g. in rules
+    addLabels(new_label_names: string[], values?: LabelTemplateValues) {
+        for (let label of new_label_names) {
+            if (ThreadAction.isLabelTemplate(label)) {
+                if (values === undefined) {
+                    ThreadAction.validateLabelTemplate(label);
+                    this.label_names.add(label);
+                    continue;
+                }
+                const expanded = ThreadAction.expandLabelTemplate(label, values);
+                if (expanded === undefined) {
+                    continue;
+                }
+                label = expanded;
+            }
             let remaining = label;
             while (remaining) {
                 this.label_names.add(remaining);
+                this.removed_label_names.delete(remaining);
                 const index = remaining.lastIndexOf('/');
                 remaining = remaining.substring(0, index);
             }
         }
     }
 
-    mergeFrom(other: Readonly<ThreadAction>): this {
-        this.addLabels(Array.from(other.label_names.values()));
-        if (other.move_to != InboxActionType.DEFAULT) {
+    removeLabels(removed_label_names: string[]) {
+        for (const label of removed_label_names) {
+            this.removed_label_names.add(label);
+        }
+    }
+
+    // E.x. "foo/bar" is removed by "foo/bar" and "foo/*", but not by "foo"
+    static isRemovedBy(label_name: string, removed_label_name: string): boolean {
+        if (removed_label_name.endsWith('/*')) {
+            return label_name.startsWith(removed_label_name.substring(0, removed_label_name.length - 1));
+        }
+        return label_name === removed_label_name;
+    }
+
+    // Whether the value of the field from source overrides the current one, where both aren't DEFAULT.
+    // Different values are recorded as a conflict.
+    private overrides(field: string, current: number, value: number, source: MergeSource, policy: MergePolicy): boolean {
+        const current_source = this.sources.get(field) || ThreadAction.UNKNOWN_SOURCE;
+        if (current === value) {
+            return false;
+        }
+        let wins: boolean;
+        switch (policy) {
+            case MergePolicy.LAST_WINS:
+                wins = true;
+                break;
+            case MergePolicy.FIRST_WINS:
+                wins = false;
+                break;
+            case MergePolicy.SAFEST:
+                wins = ThreadAction.SAFETY_RANKS[field][value] > ThreadAction.SAFETY_RANKS[field][current];
+                break;
+            case MergePolicy.PRIORITY:
+                // Later one wins if they are of the same priority
+                wins = source.priority >= current_source.priority;
+                break;
+        }
+        const value_name = (value: number) => field === 'move_to' ? InboxActionType[value] : BooleanActionType[value];
+        this.conflicts.push({
+            field,
+            kept: value_name(wins ? value : current),
+            kept_row: wins ? source.row : current_source.row,
+            dropped: value_name(wins ? current : value),
+            dropped_row: wins ? current_source.row : source.row,
+        });
+        return wins;
+    }
+
+    private mergeField(field: string, current: number, value: number, source: MergeSource, policy: MergePolicy): boolean {
+        if (value === BooleanActionType.DEFAULT) {
+            return false;
+        }
+        if (current !== BooleanActionType.DEFAULT && !this.overrides(field, current, value, source, policy)) {
+            return false;
+        }
+        this.sources.set(field, source);
+        return true;
+    }
+
+    static formatConflict(conflict: ActionConflict): string {
+        return `${conflict.field}: ${conflict.kept} of row ${conflict.kept_row} `
+            + `over ${conflict.dropped} of row ${conflict.dropped_row}`;
+    }
+
+    // Actions of later rules win for move_to and other single value fields by default, or as the policy resolves
+    // conflicts between them. The source is the rule of the other action.
+    mergeFrom(
+        other: Readonly<ThreadAction>, values?: LabelTemplateValues,
+        source: MergeSource = ThreadAction.UNKNOWN_SOURCE, policy: MergePolicy = MergePolicy.LAST_WINS): this {
+        // The later action wins when adding and removing the same label
+        for (const removed_label_name of other.removed_label_names) {
+            for (const label_name of Array.from(this.label_names.values())) {
+                if (ThreadAction.isRemovedBy(label_name, removed_label_name)) {
+                    this.label_names.delete(label_name);
+                }
+            }
+            this.removed_label_names.add(removed_label_name);
+        }
+        this.addLabels(Array.from(other.label_names.values()), values);
+        if (this.mergeField('move_to', this.move_to, other.move_to, source, policy)) {
             this.move_to = other.move_to;
         }
         for (const name of ThreadAction.ACTION_CONFIG_TYPE_FIELD_NAMES) {
-            if (other[name] != BooleanActionType.DEFAULT) {
+            if (this.mergeField(name, this[name], other[name], source, policy)) {
                 this[name] = other[name];
             }
         }
+        other.forward_to.forEach(address => this.forward_to.add(address));
+        if (other.reply_template.length > 0) {
+            this.reply_template = other.reply_template;
+        }
+        for (const [deferred_source, deferred_action] of other.deferred_actions) {
+            this.deferred_actions.set(deferred_source, deferred_action);
+        }
         return this;
     }
 
     toString() {
         let result = `>${InboxActionType[this.move_to]} +L${Array.from(this.label_names.values())}`;
+        if (this.removed_label_names.size > 0) {
+            result += ` -L${Array.from(this.removed_label_names.values())}`;
+        }
         for (const name of ThreadAction.ACTION_CONFIG_TYPE_FIELD_NAMES) {
+            // E.x. "I" for important, "MS" for mark_spam
+            const short_name = name.split('_').map(word => word[0].toUpperCase()).join('');
             switch (this[name]) {
                 case BooleanActionType.ENABLE:
-                    result += ` +${name[0].toUpperCase()}`;
+                    result += ` +${short_name}`;
                     break;
                 case BooleanActionType.DISABLE:
-                    result += ` -A${name[0].toUpperCase()}`;
+                    result += ` -A${short_name}`;
                     break;
             }
         }
+        if (this.deferred_actions.size > 0) {
+            result += ` +D${Array.from(this.deferred_actions.keys())}`;
+        }
+        if (this.forward_to.size > 0) {
+            result += ` +F${Array.from(this.forward_to.values())}`;
+        }
+        if (this.reply_template.length > 0) {
+            result += ` +R${this.reply_template}`;
+        }
         return result;
     }
 
@@ -88,6 +310,42 @@ export default class ThreadAction {
             expect(action.label_names).toEqual(expected);
         });
 
+        it('Expands label templates', () => {
+            const values: LabelTemplateValues = {
+                list: 'team@corp.com',
+                from: 'abc@gmail.com',
+                from_domain: 'gmail.com',
+                subject: 'Re: a/b  test',
+                subject_captures: ['#1234', '1234'],
+            };
+            const rule_action = new ThreadAction();
+            rule_action.addLabels(['lists/{list}', 'customers/{from_domain}', 'tickets/{subject:1}', 'misc/{subject}']);
+            const action = new ThreadAction();
+
+            action.mergeFrom(rule_action, values);
+
+            expect(rule_action.label_names).toEqual(
+                new Set(['lists/{list}', 'customers/{from_domain}', 'tickets/{subject:1}', 'misc/{subject}']));
+            expect(action.label_names).toEqual(new Set([
+                'lists', 'lists/team@corp.com', 'customers', 'customers/gmail.com', 'tickets', 'tickets/1234',
+                'misc', 'misc/Re: a-b test']));
+        });
+
+        it('Skips label templates with empty values', () => {
+            const action = new ThreadAction();
+
+            action.addLabels(['lists/{list}', 'tickets/{subject:2}', ' {from} / '], {
+                list: '', from: ' abc@gmail.com ', from_domain: 'gmail.com', subject: 'hello', subject_captures: [],
+            });
+
+            expect(action.label_names).toEqual(new Set(['abc@gmail.com']));
+        });
+
+        it('Fails with invalid label templates', () => {
+            expect(() => new ThreadAction().addLabels(['lists/{name}'])).toThrow();
+            expect(() => new ThreadAction().addLabels(['lists/{list:1}'])).toThrow();
+        });
+
         it('Does not add parent labels for empty list', () => {
             const labels: string[] = [];
             const action = new ThreadAction();
@@ -143,5 +401,133 @@ export default class ThreadAction {
             expect(message_action.important).toBe(BooleanActionType.DISABLE);
             expect(message_action.read).toBe(BooleanActionType.DISABLE);
         });
+
+        it('Merges star, mute and spam actions', () => {
+            const message_action = new ThreadAction();
+            const rule1_action = new ThreadAction();
+            const rule2_action = new ThreadAction();
+            rule1_action.star = BooleanActionType.ENABLE;
+            rule1_action.mark_spam = BooleanActionType.ENABLE;
+            rule2_action.mute = BooleanActionType.ENABLE;
+            rule2_action.mark_spam = BooleanActionType.DISABLE;
+
+            message_action.mergeFrom(rule1_action);
+            message_action.mergeFrom(rule2_action);
+
+            expect(message_action.star).toBe(BooleanActionType.ENABLE);
+            expect(message_action.mute).toBe(BooleanActionType.ENABLE);
+            expect(message_action.mark_spam).toBe(BooleanActionType.DISABLE);
+            expect(message_action.toString()).toBe('>DEFAULT +L +S +M -AMS');
+        });
+
+        it('Merges label removal of later rule', () => {
+            const message_action = new ThreadAction();
+            const rule1_action = new ThreadAction();
+            const rule2_action = new ThreadAction();
+            rule1_action.addLabels(['todo/review', 'team']);
+            rule2_action.addLabels(['done/review']);
+            rule2_action.removeLabels(['todo/*']);
+
+            message_action.mergeFrom(rule1_action);
+            message_action.mergeFrom(rule2_action);
+
+            expect(message_action.label_names).toEqual(new Set(['todo', 'team', 'done', 'done/review']));
+            expect(message_action.removed_label_names).toEqual(new Set(['todo/*']));
+        });
+
+        it('Merges label adding of later rule', () => {
+            const message_action = new ThreadAction();
+            const rule1_action = new ThreadAction();
+            const rule2_action = new ThreadAction();
+            rule1_action.removeLabels(['todo', 'later']);
+            rule2_action.addLabels(['todo/review']);
+
+            message_action.mergeFrom(rule1_action);
+            message_action.mergeFrom(rule2_action);
+
+            expect(message_action.label_names).toEqual(new Set(['todo', 'todo/review']));
+            expect(message_action.removed_label_names).toEqual(new Set(['later']));
+            expect(message_action.hasAnyAction()).toBe(true);
+        });
+
+        it('Resolves conflicts by merge policy', () => {
+            const inbox = new ThreadAction();
+            inbox.move_to = InboxActionType.INBOX;
+            inbox.read = BooleanActionType.DISABLE;
+            const archive = new ThreadAction();
+            archive.move_to = InboxActionType.ARCHIVE;
+            archive.read = BooleanActionType.ENABLE;
+            const trash = new ThreadAction();
+            trash.move_to = InboxActionType.TRASH;
+            const merged = (policy: MergePolicy) => new ThreadAction()
+                .mergeFrom(inbox, undefined, {row: 2, priority: 1}, policy)
+                .mergeFrom(archive, undefined, {row: 3, priority: 5}, policy)
+                .mergeFrom(trash, undefined, {row: 4, priority: 0}, policy);
+
+            expect(merged(MergePolicy.LAST_WINS).move_to).toBe(InboxActionType.TRASH);
+            expect(merged(MergePolicy.FIRST_WINS).move_to).toBe(InboxActionType.INBOX);
+            expect(merged(MergePolicy.SAFEST).move_to).toBe(InboxActionType.INBOX);
+            expect(merged(MergePolicy.SAFEST).read).toBe(BooleanActionType.DISABLE);
+            expect(merged(MergePolicy.PRIORITY).move_to).toBe(InboxActionType.ARCHIVE);
+            expect(merged(MergePolicy.PRIORITY).read).toBe(BooleanActionType.ENABLE);
+        });
+
+        it('Records conflicts with rules involved', () => {
+            const archive = new ThreadAction();
+            archive.move_to = InboxActionType.ARCHIVE;
+            const inbox = new ThreadAction();
+            inbox.move_to = InboxActionType.INBOX;
+            inbox.read = BooleanActionType.ENABLE;
+            const action = new ThreadAction()
+                .mergeFrom(archive, undefined, {row: 2, priority: 0}, MergePolicy.SAFEST)
+                .mergeFrom(archive, undefined, {row: 3, priority: 0}, MergePolicy.SAFEST)
+                .mergeFrom(inbox, undefined, {row: 4, priority: 0}, MergePolicy.SAFEST)
+                .mergeFrom(archive, undefined, {row: 5, priority: 0}, MergePolicy.SAFEST);
+
+            expect(action.conflicts.map(ThreadAction.formatConflict)).toEqual([
+                'move_to: INBOX of row 4 over ARCHIVE of row 2',
+                'move_to: INBOX of row 4 over ARCHIVE of row 5',
+            ]);
+        });
+
+        it('Merges deferred actions of rules', () => {
+            const message_action = new ThreadAction();
+            const rule1_action = new ThreadAction();
+            const rule2_action = new ThreadAction();
+            rule1_action.deferred_actions.set('3d inbox', new DeferredAction('3d inbox'));
+            rule2_action.deferred_actions.set('3d inbox', new DeferredAction('3d inbox'));
+            rule2_action.deferred_actions.set('30d trash', new DeferredAction('30d trash'));
+
+            message_action.mergeFrom(rule1_action);
+            message_action.mergeFrom(rule2_action);
+
+            expect(Array.from(message_action.deferred_actions.keys())).toEqual(['3d inbox', '30d trash']);
+            expect(message_action.hasAnyAction()).toBe(true);
+            expect(message_action.toString()).toBe('>DEFAULT +L +D3d inbox,30d trash');
+        });
+
+        it('Merges forwarding and reply of rules', () => {
+            const message_action = new ThreadAction();
+            const rule1_action = new ThreadAction();
+            const rule2_action = new ThreadAction();
+            rule1_action.forward_to.add('ap@corp.com');
+            rule1_action.reply_template = 'ack';
+            rule2_action.forward_to.add('audit@corp.com');
+
+            message_action.mergeFrom(rule1_action);
+            message_action.mergeFrom(rule2_action);
+
+            expect(message_action.forward_to).toEqual(new Set(['ap@corp.com', 'audit@corp.com']));
+            expect(message_action.reply_template).toBe('ack');
+            expect(message_action.hasAnyAction()).toBe(true);
+            expect(message_action.toString()).toBe('>DEFAULT +L +Fap@corp.com,audit@corp.com +Rack');
+        });
+
+        it('Matches removed labels', () => {
+            expect(ThreadAction.isRemovedBy('todo/review', 'todo/*')).toBe(true);
+            expect(ThreadAction.isRemovedBy('todo', 'todo/*')).toBe(false);
+            expect(ThreadAction.isRemovedBy('todo/review', 'todo')).toBe(false);
+            expect(ThreadAction.isRemovedBy('todos/review', 'todo/*')).toBe(false);
+        });
     }
 }
@@ -17,19 +17,127 @@
 import Utils from './utils';
 import ThreadAction, {BooleanActionType, InboxActionType} from './ThreadAction';
 import {SessionData} from './SessionData';
+import Mocks from './Mocks';
+import {DeferredAction} from './DeferredAction';
+import {Templates} from './Templates';
+import {Digest, DigestEntry} from './Digest';
 
 // Represents a message in a thread
 const MAX_BODY_PROCESSING_LENGTH = 65535;
 
+export interface AttachmentData {
+    readonly name: string;
+    readonly content_type: string;
+    readonly size: number;
+}
+
+// Threads or messages of all threads to apply each action to, so that each action is applied in a batch
+interface ActionBatches {
+    readonly added_labels: { [key: string]: GoogleAppsScript.Gmail.GmailThread[] };
+    readonly removed_labels: { [key: string]: GoogleAppsScript.Gmail.GmailThread[] };
+    readonly move_to: Map<InboxActionType, GoogleAppsScript.Gmail.GmailThread[]>;
+    readonly important: Map<BooleanActionType, GoogleAppsScript.Gmail.GmailThread[]>;
+    readonly read: Map<BooleanActionType, GoogleAppsScript.Gmail.GmailThread[]>;
+    readonly star: Map<BooleanActionType, GoogleAppsScript.Gmail.GmailMessage[]>;
+    readonly spam: GoogleAppsScript.Gmail.GmailThread[];
+    readonly deferred: [GoogleAppsScript.Gmail.GmailThread, DeferredAction][];
+    // Latest messages to forward with their recipients, and to reply with their bodies
+    readonly forward: [GoogleAppsScript.Gmail.GmailMessage, string[]][];
+    readonly reply: [GoogleAppsScript.Gmail.GmailMessage, string][];
+    readonly digest: DigestEntry[];
+}
+
+export interface ThreadState {
+    readonly label_names: string[];
+    readonly starred: boolean;
+    readonly unread: boolean;
+    readonly in_inbox: boolean;
+    readonly important: boolean;
+    readonly message_count: number;
+}
+
 export class MessageData {
 
     private static parseAddresses(str: string): string[] {
         return str.toLowerCase().split(',').map(address => address.trim());
     }
 
-    private static parseListId(raw: string): string {
-        // Parsing would be limited to headers only
-        const raw_header_str = raw.split('\r\n\r\n')[0];
+    // E.x. "Name <abc@gmail.com>" => "abc@gmail.com"
+    public static parseEmailAddress(str: string): string {
+        const match = str.match(/<([^>]*)>/);
+        return (match === null ? str : match[1]).trim().toLowerCase();
+    }
+
+    // E.x. "Name <abc@Mail.Example.com>" => "mail.example.com", or "" if it's not an address
+    public static parseEmailDomain(str: string): string {
+        const address = MessageData.parseEmailAddress(str);
+        const index = address.lastIndexOf('@');
+        return index < 0 ? '' : address.substring(index + 1).replace(/\.$/, '');
+    }
+
+    // Ignores case and label in address, e.x. "Abc+label@gmail.com" => "abc@gmail.com"
+    public static normalizeAddress(address: string): string {
+        return address.toLowerCase().replace(/\+[^@]*@/, '@');
+    }
+
+    private static parseHeaders(raw_header_str: string): Map<string, string[]> {
+        const headers = new Map<string, string[]>();
+        // Unfold continuation lines before splitting into fields (RFC 5322 section 2.2.3)
+        const lines = raw_header_str.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/);
+        for (const line of lines) {
+            const index = line.indexOf(':');
+            if (index <= 0) {
+                continue;
+            }
+            const name = line.substring(0, index).trim().toLowerCase();
+            const value = line.substring(index + 1).trim();
+            if (!headers.has(name)) {
+                headers.set(name, []);
+            }
+            headers.get(name)!.push(value);
+        }
+        return headers;
+    }
+
+    // Formats date as "yyyy-MM-ddTHH:mm" with weekday (0 for Sunday) and hour in the given time zone
+    private static getLocalTime(date: Date, time_zone: string): { date_str: string, weekday: number, hour: number } {
+        const parts: { [key: string]: string } = {};
+        new Intl.DateTimeFormat('en-US', {
+            timeZone: time_zone,
+            year: 'numeric', month: '2-digit', day: '2-digit',
+            hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+            weekday: 'short',
+        }).formatToParts(date).forEach(part => parts[part.type] = part.value);
+        return {
+            date_str: `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}`,
+            weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(parts.weekday),
+            hour: parseInt(parts.hour),
+        };
+    }
+
+    // Truncates and logs long content of the message
+    private static truncate(content: string, content_name: string, subject: string): string {
+        if (content.length > MAX_BODY_PROCESSING_LENGTH) {
+            console.log(`Ignoring the end of long ${content_name} of message with subject "${subject}"`);
+            return content.substr(0, MAX_BODY_PROCESSING_LENGTH);
+        }
+        return content;
+    }
+
+    // Returns lower-cased hosts of http(s) links in HTML, e.g. "www.example.com" of <a href="https://www.example.com/a">
+    private static parseLinkDomains(html: string): string[] {
+        const domains = new Set<string>();
+        const regexp = /\bhref\s*=\s*["']?\s*https?:\/\/([^"'\s>\/?#]+)/gi;
+        let match;
+        while ((match = regexp.exec(html)) !== null) {
+            // Drop user info and port, e.g. user@www.example.com:8080
+            const host = match[1].substring(match[1].lastIndexOf('@') + 1).replace(/:\d*$/, '');
+            domains.add(host.toLowerCase());
+        }
+        return Array.from(domains.values());
+    }
+
+    private static parseListId(raw_header_str: string): string {
         // const match = raw_header_str.match(/^\s*list-id:[^<]*<([^>]*)>\s*$/im);
         // if (match == null || !match[1]) {
         //     return '';
@@ -63,30 +171,128 @@ export class MessageData {
     public readonly cc: string[];
     public readonly bcc: string[];
     public readonly list: string;
-    public readonly reply_to: string[]; // TODO: support it in Rule
+    public readonly reply_to: string[];
     public readonly sender: string[];
     public readonly receivers: string[];
+    // Lower-cased header name to all its values, in the order they appear in the message
+    public readonly headers: Map<string, string[]>;
     public readonly subject: string;
     public readonly body: string;
+    // Length of plain body without leading and trailing whitespace, before truncating
+    public readonly body_length: number;
+    public readonly date: Date;
+    // Date parts in the spreadsheet time zone
+    public readonly local_date_str: string;
+    public readonly local_weekday: number;
+    public readonly local_hour: number;
+    // Results of leaf conditions evaluated against this message by their canonical form, shared by all rules
+    public readonly leaf_results = new Map<string, boolean>();
+
+    private readonly raw: GoogleAppsScript.Gmail.GmailMessage;
+    private readonly thread_data: ThreadData | undefined;
+    // Beginning of raw content, which is enough to tell if it's truncated
+    private readonly raw_content_head: string;
+    private raw_content_cache: string | undefined;
+    private html_cache: string | undefined;
+    private size_cache: number | undefined;
+    private link_domain_list: string[] | undefined;
+    private attachment_list: AttachmentData[] | undefined;
+    private thread_state_cache: ThreadState | undefined;
 
-    constructor(message: GoogleAppsScript.Gmail.GmailMessage) {
+    constructor(message: GoogleAppsScript.Gmail.GmailMessage, time_zone: string, thread_data?: ThreadData) {
+        this.raw = message;
+        this.thread_data = thread_data;
         this.from = message.getFrom();
         this.to = MessageData.parseAddresses(message.getTo());
         this.cc = MessageData.parseAddresses(message.getCc());
         this.bcc = MessageData.parseAddresses(message.getBcc());
-        this.list = MessageData.parseListId(message.getRawContent());
+        // Parsing would be limited to headers only
+        const raw_content = message.getRawContent();
+        const raw_header_str = raw_content.split('\r\n\r\n')[0];
+        this.raw_content_head = raw_content.substr(0, MAX_BODY_PROCESSING_LENGTH + 1);
+        this.headers = MessageData.parseHeaders(raw_header_str);
+        this.list = MessageData.parseListId(raw_header_str);
         this.reply_to = MessageData.parseAddresses(message.getReplyTo());
         this.sender = ([] as string[]).concat(this.from, this.reply_to);
         this.receivers = ([] as string[]).concat(this.to, this.cc, this.bcc, this.list);
         this.subject = message.getSubject();
-        // Potentially could be HTML, Plain, or RAW. But doesn't seem very useful other than Plain.
-        let body = message.getPlainBody();
-        // Truncate and log long messages.
-        if (body.length > MAX_BODY_PROCESSING_LENGTH) {
-            Logger.log(`Ignoring the end of long message with subject "${this.subject}"`);
-            body = body.substr(0, MAX_BODY_PROCESSING_LENGTH);
+        // HTML and raw content are fetched only when a rule asks for them
+        const body = message.getPlainBody();
+        this.body_length = body.trim().length;
+        this.body = MessageData.truncate(body, 'body', this.subject);
+        this.date = new Date(message.getDate().getTime());
+        const local_time = MessageData.getLocalTime(this.date, time_zone);
+        this.local_date_str = local_time.date_str;
+        this.local_weekday = local_time.weekday;
+        this.local_hour = local_time.hour;
+    }
+
+    get html(): string {
+        if (this.html_cache === undefined) {
+            this.html_cache = MessageData.truncate(this.raw.getBody(), 'HTML body', this.subject);
+        }
+        return this.html_cache;
+    }
+
+    // Size of raw message in UTF-8 bytes, fetched only when a rule asks for it since it counts the whole message
+    get size(): number {
+        if (this.size_cache === undefined) {
+            const raw_content = this.raw.getRawContent();
+            // Utilities is only available in Apps Script, and Buffer only in tests
+            this.size_cache = typeof Utilities !== 'undefined'
+                ? Utilities.newBlob(raw_content).getBytes().length
+                : Buffer.byteLength(raw_content, 'utf8');
         }
-        this.body = body;
+        return this.size_cache;
+    }
+
+    // Raw MIME source, including headers and all parts
+    get raw_content(): string {
+        if (this.raw_content_cache === undefined) {
+            this.raw_content_cache = MessageData.truncate(this.raw_content_head, 'raw content', this.subject);
+        }
+        return this.raw_content_cache;
+    }
+
+    // Hosts of links in HTML body
+    get link_domains(): string[] {
+        if (this.link_domain_list === undefined) {
+            this.link_domain_list = MessageData.parseLinkDomains(this.html);
+        }
+        return this.link_domain_list;
+    }
+
+    // Fetched only when a rule asks for it, since it loads all attachment blobs
+    get attachments(): AttachmentData[] {
+        if (this.attachment_list === undefined) {
+            this.attachment_list = this.raw.getAttachments().map(attachment => ({
+                name: attachment.getName(),
+                content_type: attachment.getContentType(),
+                size: attachment.getSize(),
+            }));
+        }
+        return this.attachment_list;
+    }
+
+    // All messages of the thread in order, or only this message if it's not created with its thread
+    get thread_messages(): MessageData[] {
+        return this.thread_data === undefined ? [this] : this.thread_data.all_message_data_list;
+    }
+
+    // State of the thread before any action is applied, fetched only when a rule asks for it
+    get thread_state(): ThreadState {
+        if (this.thread_state_cache === undefined) {
+            const thread = this.raw.getThread();
+            this.thread_state_cache = {
+                label_names: thread.getLabels().map(label => label.getName()),
+                starred: thread.hasStarredMessages(),
+                unread: thread.isUnread(),
+                in_inbox: thread.isInInbox(),
+                important: thread.isImportant(),
+                message_count: thread.getMessageCount(),
+            };
+        }
+        return this.thread_state_cache;
     }
 
     toString() {
@@ -97,21 +303,29 @@ export class MessageData {
 // Represents a thread
 export class ThreadData {
     private readonly raw: GoogleAppsScript.Gmail.GmailThread;
+    private readonly raw_messages: GoogleAppsScript.Gmail.GmailMessage[];
+    private readonly new_raw_messages: GoogleAppsScript.Gmail.GmailMessage[];
+    private readonly time_zone: string;
+    private all_message_data_cache: MessageData[] | undefined;
 
+    // Messages to process, the ones not too old
     public readonly message_data_list: MessageData[];
-    public readonly thread_action = new ThreadAction();
+    public thread_action = new ThreadAction();
 
     constructor(session_data: SessionData, thread: GoogleAppsScript.Gmail.GmailThread) {
         this.raw = thread;
+        this.time_zone = session_data.time_zone;
 
         const messages = thread.getMessages();
+        this.raw_messages = messages;
         // Get messages that is not too old, but at least one message
         let newMessages = messages.filter(
             message => message.getDate() > session_data.oldest_to_process);
         if (newMessages.length === 0) {
             newMessages = [messages[messages.length - 1]];
         }
-        this.message_data_list = newMessages.map(message => new MessageData(message));
+        this.new_raw_messages = newMessages;
+        this.message_data_list = newMessages.map(message => new MessageData(message, session_data.time_zone, this));
 
         // Log if any dropped.
         const numDropped = messages.length - newMessages.length;
@@ -121,6 +335,17 @@ export class ThreadData {
         }
     }
 
+    // All messages of the thread including the too old ones, created only when a rule asks for them
+    get all_message_data_list(): MessageData[] {
+        if (this.all_message_data_cache === undefined) {
+            this.all_message_data_cache = this.raw_messages.map(message => {
+                const index = this.new_raw_messages.indexOf(message);
+                return index >= 0 ? this.message_data_list[index] : new MessageData(message, this.time_zone, this);
+            });
+        }
+        return this.all_message_data_cache;
+    }
+
     validateActions() {
         if (!this.thread_action.hasAnyAction()) {
             const messages = this.raw.getMessages();
@@ -131,46 +356,190 @@ export class ThreadData {
         }
     }
 
-    static applyAllActions(session_data: SessionData, all_thread_data: ThreadData[]) {
-        const label_action_map: { [key: string]: GoogleAppsScript.Gmail.GmailThread[] } = {};
-        const moving_action_map = new Map<InboxActionType, GoogleAppsScript.Gmail.GmailThread[]>([
-            [InboxActionType.DEFAULT, []], [InboxActionType.INBOX, []], [InboxActionType.ARCHIVE, []], [InboxActionType.TRASH, []]
-        ]);
-        const important_action_map = new Map<BooleanActionType, GoogleAppsScript.Gmail.GmailThread[]>([
-            [BooleanActionType.DEFAULT, []], [BooleanActionType.ENABLE, []], [BooleanActionType.DISABLE, []]
-        ]);
-        const read_action_map = new Map<BooleanActionType, GoogleAppsScript.Gmail.GmailThread[]>([
-            [BooleanActionType.DEFAULT, []], [BooleanActionType.ENABLE, []], [BooleanActionType.DISABLE, []]
-        ]);
+    private hasLabel(label_name: string): boolean {
+        return this.raw.getLabels().some(label => label.getName() === label_name);
+    }
+
+    // Whether the thread is muted by an earlier processing
+    private isMuted(session_data: SessionData): boolean {
+        const muted_label = session_data.config.muted_label;
+        return muted_label.length > 0 && muted_label in session_data.labels && this.hasLabel(muted_label);
+    }
+
+    // Why the message shouldn't be replied automatically, to avoid mail loops, or "" if it can be
+    private static isUserAddress(session_data: SessionData, address: string): boolean {
+        return MessageData.normalizeAddress(MessageData.parseEmailAddress(address))
+            === MessageData.normalizeAddress(session_data.user_email.toLowerCase());
+    }
+
+    private static getAutoReplyBlocker(session_data: SessionData, message_data: MessageData): string {
+        const headers = message_data.headers;
+        if (message_data.list.length > 0) {
+            return `it's from mailing list ${message_data.list}`;
+        }
+        // See RFC 2369 and RFC 2919
+        if (headers.has('list-id') || headers.has('list-unsubscribe')) {
+            return `it's from a mailing list`;
+        }
+        if ((headers.get('precedence') || []).some(
+            value => ['bulk', 'list', 'junk'].indexOf(value.trim().toLowerCase()) >= 0)) {
+            return `it's bulk mail`;
+        }
+        if ([message_data.from, ...message_data.reply_to].some(
+            address => ThreadData.isUserAddress(session_data, address))) {
+            return `it's from ${session_data.user_email}`;
+        }
+        // See RFC 3834
+        if ((headers.get('auto-submitted') || []).some(value => value.trim().toLowerCase() !== 'no')) {
+            return `it's automatically submitted`;
+        }
+        return '';
+    }
+
+    private static collectActions(session_data: SessionData, all_thread_data: ThreadData[]): ActionBatches {
+        const batches: ActionBatches = {
+            added_labels: {},
+            removed_labels: {},
+            move_to: new Map<InboxActionType, GoogleAppsScript.Gmail.GmailThread[]>([
+                [InboxActionType.DEFAULT, []], [InboxActionType.INBOX, []], [InboxActionType.ARCHIVE, []], [InboxActionType.TRASH, []]
+            ]),
+            important: new Map<BooleanActionType, GoogleAppsScript.Gmail.GmailThread[]>([
+                [BooleanActionType.DEFAULT, []], [BooleanActionType.ENABLE, []], [BooleanActionType.DISABLE, []]
+            ]),
+            read: new Map<BooleanActionType, GoogleAppsScript.Gmail.GmailThread[]>([
+                [BooleanActionType.DEFAULT, []], [BooleanActionType.ENABLE, []], [BooleanActionType.DISABLE, []]
+            ]),
+            star: new Map<BooleanActionType, GoogleAppsScript.Gmail.GmailMessage[]>([
+                [BooleanActionType.DEFAULT, []], [BooleanActionType.ENABLE, []], [BooleanActionType.DISABLE, []]
+            ]),
+            spam: [],
+            deferred: [],
+            forward: [],
+            reply: [],
+            digest: [],
+        };
+        const add = (label_map: { [key: string]: GoogleAppsScript.Gmail.GmailThread[] }, label_name: string,
+                     thread: GoogleAppsScript.Gmail.GmailThread) => {
+            if (!(label_name in label_map)) {
+                label_map[label_name] = [];
+            }
+            label_map[label_name].push(thread);
+        };
+        const muted_label = session_data.config.muted_label;
+        const {forwarded_label, auto_replied_label} = session_data.config;
+
         all_thread_data.forEach(thread_data => {
             const thread = thread_data.raw;
             const action = thread_data.thread_action;
             console.log(`apply action ${action} to thread '${thread.getFirstMessageSubject()}'`);
 
             // update label action map
-            action.label_names.forEach(label_name => {
-                if (!(label_name in label_action_map)) {
-                    label_action_map[label_name] = [];
+            action.label_names.forEach(label_name => add(batches.added_labels, label_name, thread));
+
+            // update label removal map, only existing labels could be removed
+            if (action.removed_label_names.size > 0) {
+                const removed_label_names = new Set<string>();
+                action.removed_label_names.forEach(removed => {
+                    if (removed.endsWith('/*')) {
+                        Object.keys(session_data.labels)
+                            .filter(label_name => ThreadAction.isRemovedBy(label_name, removed))
+                            .forEach(label_name => removed_label_names.add(label_name));
+                    } else if (removed in session_data.labels) {
+                        removed_label_names.add(removed);
+                    }
+                });
+                removed_label_names.forEach(label_name => {
+                    if (!action.label_names.has(label_name)) {
+                        add(batches.removed_labels, label_name, thread);
+                    }
+                });
+            }
+
+            // muted threads stay out of inbox, unless moved explicitly
+            let move_to = action.move_to;
+            const muted = action.mute === BooleanActionType.ENABLE
+                || (action.mute === BooleanActionType.DEFAULT && thread_data.isMuted(session_data));
+            if (muted && move_to === InboxActionType.DEFAULT) {
+                move_to = InboxActionType.ARCHIVE;
+            }
+            if (muted_label.length > 0) {
+                if (action.mute === BooleanActionType.ENABLE) {
+                    add(batches.added_labels, muted_label, thread);
+                } else if (action.mute === BooleanActionType.DISABLE && muted_label in session_data.labels) {
+                    add(batches.removed_labels, muted_label, thread);
                 }
-                label_action_map[label_name].push(thread);
-            });
+            }
 
             // other actions
-            moving_action_map.get(action.move_to)!.push(thread);
-            important_action_map.get(action.important)!.push(thread);
-            read_action_map.get(action.read)!.push(thread);
+            batches.move_to.get(move_to)!.push(thread);
+            batches.important.get(action.important)!.push(thread);
+            batches.read.get(action.read)!.push(thread);
+            const messages = thread_data.raw_messages;
+            switch (action.star) {
+                case BooleanActionType.ENABLE:
+                    batches.star.get(action.star)!.push(messages[messages.length - 1]);
+                    break;
+                case BooleanActionType.DISABLE:
+                    batches.star.get(action.star)!.push(...messages);
+                    break;
+            }
+            if (action.mark_spam === BooleanActionType.ENABLE) {
+                batches.spam.push(thread);
+            }
+            action.deferred_actions.forEach(deferred_action => batches.deferred.push([thread, deferred_action]));
+            const latest_message_data = thread_data.message_data_list[thread_data.message_data_list.length - 1];
+            if (action.digest === BooleanActionType.ENABLE) {
+                batches.digest.push(Digest.createEntry(thread, action, latest_message_data));
+            }
+
+            // send at most once per thread, marked by labels
+            const latest_message = messages[messages.length - 1];
+            if (action.forward_to.size > 0) {
+                if (thread_data.hasLabel(forwarded_label)) {
+                    console.log(`skip forwarding thread '${thread.getFirstMessageSubject()}' forwarded already`);
+                } else if (ThreadData.isUserAddress(session_data, latest_message_data.from)) {
+                    console.log(
+                        `skip forwarding thread '${thread.getFirstMessageSubject()}' from ${session_data.user_email}`);
+                } else {
+                    batches.forward.push([latest_message, Array.from(action.forward_to.values())]);
+                    add(batches.added_labels, forwarded_label, thread);
+                }
+            }
+            if (action.reply_template.length > 0) {
+                const blocker = thread_data.hasLabel(auto_replied_label) ? `it's replied already`
+                    : ThreadData.getAutoReplyBlocker(session_data, latest_message_data);
+                if (blocker.length > 0) {
+                    console.log(`skip replying thread '${thread.getFirstMessageSubject()}' since ${blocker}`);
+                } else {
+                    batches.reply.push(
+                        [latest_message, session_data.templates.fill(action.reply_template, latest_message_data)]);
+                    add(batches.added_labels, auto_replied_label, thread);
+                }
+            }
         });
+        return batches;
+    }
+
+    // Applies and schedules actions of threads
+    static applyActions(session_data: SessionData, all_thread_data: ThreadData[]) {
+        const batches = ThreadData.collectActions(session_data, all_thread_data);
 
         Utils.withTimer("BatchApply", () => {
             // batch update labels
-            for (const label_name in label_action_map) {
-                const threads = label_action_map[label_name];
+            for (const label_name in batches.added_labels) {
+                const threads = batches.added_labels[label_name];
                 session_data.getOrCreateLabel(label_name).addToThreads(threads);
                 console.log(`add label ${label_name} to ${threads.length} threads`);
             }
-            Logger.log(`Updated labels: ${Object.keys(label_action_map)}.`);
+            for (const label_name in batches.removed_labels) {
+                const threads = batches.removed_labels[label_name];
+                session_data.labels[label_name].removeFromThreads(threads);
+                console.log(`remove label ${label_name} from ${threads.length} threads`);
+            }
+            Logger.log(`Updated labels: ${Object.keys(batches.added_labels)}, `
+                + `removed: ${Object.keys(batches.removed_labels)}.`);
 
-            moving_action_map.forEach((threads, action_type) => {
+            batches.move_to.forEach((threads, action_type) => {
                 switch (action_type) {
                     case InboxActionType.INBOX:
                         GmailApp.moveThreadsToInbox(threads);
@@ -183,7 +552,7 @@ export class ThreadData {
                         break;
                 }
             });
-            important_action_map.forEach((threads, action_type) => {
+            batches.important.forEach((threads, action_type) => {
                 switch (action_type) {
                     case BooleanActionType.ENABLE:
                         GmailApp.markThreadsImportant(threads);
@@ -193,7 +562,7 @@ export class ThreadData {
                         break;
                 }
             });
-            read_action_map.forEach((threads, action_type) => {
+            batches.read.forEach((threads, action_type) => {
                 switch (action_type) {
                     case BooleanActionType.ENABLE:
                         GmailApp.markThreadsRead(threads);
@@ -203,8 +572,44 @@ export class ThreadData {
                         break;
                 }
             });
+            batches.star.forEach((messages, action_type) => {
+                switch (action_type) {
+                    case BooleanActionType.ENABLE:
+                        GmailApp.starMessages(messages);
+                        break;
+                    case BooleanActionType.DISABLE:
+                        GmailApp.unstarMessages(messages);
+                        break;
+                }
+            });
+            // after moving, which would take them out of spam
+            if (batches.spam.length > 0) {
+                GmailApp.moveThreadsToSpam(batches.spam);
+            }
             Logger.log(`Updated threads status.`);
 
+            // after labeling, so that a failed sending is not retried
+            ThreadData.send(batches);
+            Logger.log(`Forwarded ${batches.forward.length} and replied ${batches.reply.length} messages.`);
+
+            DeferredAction.schedule(session_data.processing_start_time, batches.deferred);
+            Digest.record(session_data.processing_start_time, batches.digest);
+        });
+    }
+
+    private static send(batches: Pick<ActionBatches, 'forward' | 'reply'>) {
+        for (const [message, recipients] of batches.forward) {
+            message.forward(recipients.join(','));
+        }
+        for (const [message, body] of batches.reply) {
+            message.reply(body);
+        }
+    }
+
+    static applyAllActions(session_data: SessionData, all_thread_data: ThreadData[]) {
+        ThreadData.applyActions(session_data, all_thread_data);
+
+        Utils.withTimer("MarkProcessed", () => {
             const all_threads = all_thread_data.map(data => data.raw);
             if (session_data.config.processed_label.length > 0){
                 session_data.getOrCreateLabel(session_data.config.processed_label).addToThreads(all_threads);
@@ -213,4 +618,189 @@ export class ThreadData {
             Logger.log(`Mark as processed.`);
         });
     }
+
+    public static testThreadData(it: Function, expect: Function) {
+        const session_data = Mocks.getMockSessionData({
+            labels: {
+                'myMuted': {} as GoogleAppsScript.Gmail.GmailLabel,
+                'todo/a': {} as GoogleAppsScript.Gmail.GmailLabel,
+                'todo/b': {} as GoogleAppsScript.Gmail.GmailLabel,
+                'done': {} as GoogleAppsScript.Gmail.GmailLabel,
+            },
+            templates: Templates.parseTemplates([['name', 'body'], ['ack', 'We got "{subject}".']]),
+        });
+
+        function thread_data_of(action: Partial<ThreadAction>, labels: string[] = [], message_count: number = 1) {
+            const messages: Partial<GoogleAppsScript.Gmail.GmailMessage>[] = [];
+            for (let i = 0; i < message_count; i++) {
+                messages.push({getSubject: () => `message ${i}`});
+            }
+            const thread_data = new ThreadData(session_data, Mocks.getMockThreadOfMessages(messages, {}, labels));
+            Object.assign(thread_data.thread_action, action);
+            return thread_data;
+        }
+
+        it('Batches actions of all threads', () => {
+            const thread_data1 = thread_data_of({move_to: InboxActionType.ARCHIVE, star: BooleanActionType.ENABLE}, [], 2);
+            thread_data1.thread_action.addLabels(['abc']);
+            const thread_data2 = thread_data_of({read: BooleanActionType.ENABLE, mark_spam: BooleanActionType.ENABLE});
+            thread_data2.thread_action.addLabels(['abc']);
+
+            const batches = ThreadData.collectActions(session_data, [thread_data1, thread_data2]);
+
+            expect(batches.added_labels['abc'].length).toBe(2);
+            expect(batches.move_to.get(InboxActionType.ARCHIVE)!.length).toBe(1);
+            expect(batches.move_to.get(InboxActionType.ARCHIVE)![0]).toBe(thread_data1.raw);
+            expect(batches.read.get(BooleanActionType.ENABLE)![0]).toBe(thread_data2.raw);
+            expect(batches.star.get(BooleanActionType.ENABLE)!.map(message => message.getSubject())).toEqual(['message 1']);
+            expect(batches.spam.length).toBe(1);
+            expect(batches.spam[0]).toBe(thread_data2.raw);
+        })
+        it('Unstars all messages', () => {
+            const batches = ThreadData.collectActions(
+                session_data, [thread_data_of({star: BooleanActionType.DISABLE}, [], 3)]);
+
+            expect(batches.star.get(BooleanActionType.DISABLE)!.length).toBe(3);
+            expect(batches.star.get(BooleanActionType.ENABLE)!.length).toBe(0);
+        })
+        it('Mutes threads and keeps muted threads out of inbox', () => {
+            const muting = thread_data_of({mute: BooleanActionType.ENABLE});
+            const muted = thread_data_of({read: BooleanActionType.ENABLE}, ['myMuted']);
+            const muted_to_inbox = thread_data_of({move_to: InboxActionType.INBOX}, ['myMuted']);
+            const unmuting = thread_data_of({mute: BooleanActionType.DISABLE}, ['myMuted']);
+
+            const batches = ThreadData.collectActions(session_data, [muting, muted, muted_to_inbox, unmuting]);
+
+            expect(batches.added_labels['myMuted'].length).toBe(1);
+            expect(batches.added_labels['myMuted'][0]).toBe(muting.raw);
+            expect(batches.move_to.get(InboxActionType.ARCHIVE)!.length).toBe(2);
+            expect(batches.move_to.get(InboxActionType.ARCHIVE)![0]).toBe(muting.raw);
+            expect(batches.move_to.get(InboxActionType.ARCHIVE)![1]).toBe(muted.raw);
+            expect(batches.move_to.get(InboxActionType.INBOX)![0]).toBe(muted_to_inbox.raw);
+            expect(batches.removed_labels['myMuted'].length).toBe(1);
+            expect(batches.removed_labels['myMuted'][0]).toBe(unmuting.raw);
+            expect(batches.move_to.get(InboxActionType.DEFAULT)![0]).toBe(unmuting.raw);
+        })
+        it('Removes existing labels not added by the same action', () => {
+            const thread_data = thread_data_of({});
+            thread_data.thread_action.removeLabels(['todo/*', 'missing']);
+            thread_data.thread_action.addLabels(['todo/b']);
+
+            const batches = ThreadData.collectActions(session_data, [thread_data]);
+
+            expect(Object.keys(batches.removed_labels)).toEqual(['todo/a']);
+        })
+        it('Collects deferred actions', () => {
+            const thread_data = thread_data_of({});
+            thread_data.thread_action.deferred_actions.set('3d inbox', new DeferredAction('3d inbox'));
+
+            const batches = ThreadData.collectActions(session_data, [thread_data, thread_data_of({})]);
+
+            expect(batches.deferred.length).toBe(1);
+            expect(batches.deferred[0][0]).toBe(thread_data.raw);
+            expect(batches.deferred[0][1].source).toBe('3d inbox');
+        })
+        it('Collects digest entries of the latest messages', () => {
+            const thread_data = new ThreadData(session_data, Mocks.getMockThreadOfMessages(
+                [{getSubject: () => 'first'}, {getSubject: () => 'second'}],
+                {getId: () => 't1', getPermalink: () => 'https://mail.google.com/mail/#all/t1'}));
+            thread_data.thread_action.digest = BooleanActionType.ENABLE;
+
+            const batches = ThreadData.collectActions(session_data, [thread_data, thread_data_of({})]);
+
+            expect(batches.digest.map(entry => `${entry.thread_id} ${entry.subject} ${entry.permalink}`))
+                .toEqual(['t1 second https://mail.google.com/mail/#all/t1']);
+        })
+        it('Forwards and replies the latest message once per thread', () => {
+            const forwarding = thread_data_of({}, [], 2);
+            forwarding.thread_action.forward_to.add('ap@corp.com');
+            const forwarded = thread_data_of({}, ['myForwarded']);
+            forwarded.thread_action.forward_to.add('ap@corp.com');
+            const replying = thread_data_of({reply_template: 'ack'}, [], 2);
+            const replied = thread_data_of({reply_template: 'ack'}, ['myAutoReplied']);
+
+            const batches = ThreadData.collectActions(session_data, [forwarding, forwarded, replying, replied]);
+
+            expect(batches.forward.map(([message, recipients]) => `${message.getSubject()} ${recipients}`))
+                .toEqual(['message 1 ap@corp.com']);
+            expect(batches.reply.map(([message, body]) => `${message.getSubject()}: ${body}`))
+                .toEqual(['message 1: We got "message 1".']);
+            expect(batches.added_labels['myForwarded'].length).toBe(1);
+            expect(batches.added_labels['myForwarded'][0]).toBe(forwarding.raw);
+            expect(batches.added_labels['myAutoReplied'].length).toBe(1);
+            expect(batches.added_labels['myAutoReplied'][0]).toBe(replying.raw);
+        })
+        it('Does not reply to self, lists or automatic messages', () => {
+            const thread_data_from = (message: Partial<GoogleAppsScript.Gmail.GmailMessage>) => {
+                const thread_data = new ThreadData(session_data, Mocks.getMockThreadOfMessages([message]));
+                thread_data.thread_action.reply_template = 'ack';
+                return thread_data;
+            };
+
+            const batches = ThreadData.collectActions(session_data, [
+                thread_data_from({getFrom: () => 'Me <ABC+support@gmail.com>'}),
+                thread_data_from({getFrom: () => 'xyz@gmail.com', getReplyTo: () => 'abc@gmail.com'}),
+                thread_data_from({
+                    getFrom: () => 'xyz@gmail.com',
+                    getRawContent: () => 'Mailing-list: list team@corp.com\r\n\r\n',
+                }),
+                thread_data_from({
+                    getFrom: () => 'xyz@gmail.com',
+                    getRawContent: () => 'Auto-Submitted: auto-replied\r\n\r\n',
+                }),
+                thread_data_from({
+                    getFrom: () => 'xyz@gmail.com',
+                    getRawContent: () => 'List-Id: Team <team.corp.com>\r\n\r\n',
+                }),
+                thread_data_from({
+                    getFrom: () => 'xyz@gmail.com',
+                    getRawContent: () => 'List-Unsubscribe: <mailto:leave@corp.com>\r\n\r\n',
+                }),
+                thread_data_from({
+                    getFrom: () => 'xyz@gmail.com',
+                    getRawContent: () => 'Precedence: Bulk\r\n\r\n',
+                }),
+                thread_data_from({
+                    getFrom: () => 'xyz@gmail.com', getSubject: () => 'help',
+                    getRawContent: () => 'Auto-Submitted: no\r\nPrecedence: first-class\r\n\r\n',
+                }),
+            ]);
+
+            expect(batches.reply.map(([message]) => message.getSubject())).toEqual(['help']);
+        })
+        it('Does not forward messages from self', () => {
+            const thread_data_from = (from: string) => {
+                const thread_data = new ThreadData(session_data, Mocks.getMockThreadOfMessages([{
+                    getFrom: () => from, getSubject: () => from,
+                }]));
+                thread_data.thread_action.forward_to.add('ap@corp.com');
+                return thread_data;
+            };
+
+            const batches = ThreadData.collectActions(session_data, [
+                thread_data_from('Me <ABC+invoice@gmail.com>'),
+                thread_data_from('xyz@gmail.com'),
+            ]);
+
+            expect(batches.forward.map(([message]) => message.getSubject())).toEqual(['xyz@gmail.com']);
+            expect(batches.added_labels['myForwarded'].length).toBe(1);
+        })
+        it('Sends with mocked messages', () => {
+            const sent: string[] = [];
+            const message = Mocks.getMockMessage({
+                forward: (recipient: string) => {
+                    sent.push(`forward to ${recipient}`);
+                    return message;
+                },
+                reply: (body: string) => {
+                    sent.push(`reply ${body}`);
+                    return message;
+                },
+            });
+
+            ThreadData.send({forward: [[message, ['ap@corp.com', 'audit@corp.com']]], reply: [[message, 'Thanks']]});
+
+            expect(sent).toEqual(['forward to ap@corp.com,audit@corp.com', 'reply Thanks']);
+        })
+    }
 }
@@ -17,12 +17,22 @@
 // Polyfills
 
 import Condition from './Condition';
+import {ConditionParser} from './ConditionParser';
 import {Config} from './Config';
+import {DeferredAction} from './DeferredAction';
+import {Digest} from './Digest';
+import {GmailFilters} from './GmailFilters';
 import {JestExpect, JestIt} from './JestSheets';
+import {NamedConditions} from './NamedConditions';
 import {Processor} from './Processor';
+import {Retention} from './Retention';
 import {Rule} from './Rule';
+import {RuleIndex} from './RuleIndex';
+import {RuleLinter} from './RuleLinter';
 import {Stats} from './Stats';
+import {Templates} from './Templates';
 import ThreadAction from './ThreadAction';
+import {ThreadData} from './ThreadData';
 import Utils from './utils';
 
 // String.startsWith polyfill
@@ -93,12 +103,17 @@ function onOpen(e: { authMode: GoogleAppsScript.Script.AuthMode }) {
     } else {
         menu
             .addItem('Process now', 'processEmails')
+            .addItem('Check rules', 'checkRules')
+            .addItem('Export Gmail filters', 'exportGmailFilters')
+            .addItem('Import Gmail filters', 'importGmailFilters')
             .addSeparator()
             .addItem('Start auto processing', 'setupTriggers')
             .addItem('Stop auto processing', 'cancelTriggers')
             .addSeparator()
             .addSubMenu(
                 ui.createMenu('DEBUG')
+                    .addItem('Explain matching', 'explainMatching')
+                    .addItem('Preview retention', 'previewRetention')
                     .addItem('Run tests', 'testAll'));
     }
     menu.addToUi();
@@ -110,12 +125,76 @@ function processEmails() {
     Utils.withFailureEmailed("processEmails", () => Processor.processAllUnprocessedThreads());
 }
 
-function sanityChecking() {
-    Utils.withFailureEmailed("sanityChecking", () => {
-        Stats.collapseStatRecords();
+// Triggered when click via Spreadsheet menu
+function checkRules() {
+    Utils.withFailureEmailed("checkRules", () => RuleLinter.lintToSheet());
+}
+
+// Triggered when click via Spreadsheet menu
+function exportGmailFilters() {
+    ensurePermissionsEstablished();
+    Utils.withFailureEmailed("exportGmailFilters", () => GmailFilters.exportToEmail());
+}
+
+// Triggered when click via Spreadsheet menu
+function importGmailFilters() {
+    ensurePermissionsEstablished();
+    Utils.withFailureEmailed("importGmailFilters", () => GmailFilters.importFromEmail());
+}
+
+// Triggered when click via Spreadsheet menu
+function explainMatching() {
+    ensurePermissionsEstablished();
+    Utils.withFailureEmailed("explainMatching", () => {
+        const ui = SpreadsheetApp.getUi();
+        const response = ui.prompt('Explain matching',
+            'Gmail search query of threads to explain, e.g. subject:"weekly report"', ui.ButtonSet.OK_CANCEL);
+        if (response.getSelectedButton() !== ui.Button.OK) {
+            return;
+        }
+        const explanation = Processor.explainThreads(response.getResponseText());
+        Logger.log(explanation);
+        ui.alert('Explain matching', explanation, ui.ButtonSet.OK);
+    });
+}
+
+// Triggered when click via Spreadsheet menu
+function previewRetention() {
+    ensurePermissionsEstablished();
+    Utils.withFailureEmailed("previewRetention", () => {
+        const ui = SpreadsheetApp.getUi();
+        ui.alert('Preview retention', Retention.applyRetention(true), ui.ButtonSet.OK);
     });
 }
 
+function sanityChecking() {
+    // Each job is emailed on failure separately, so that a failing job doesn't stop the others
+    const jobs: [string, () => unknown][] = [
+        ["collapseStatRecords", () => Stats.collapseStatRecords()],
+        ["applyDueActions", () => DeferredAction.applyDueActions()],
+        ["applyRetention", () => Retention.applyRetention()],
+        ["sendDigest", () => {
+            if (Digest.isSentWithSanityChecking(Config.getConfig())) {
+                Digest.sendDigest();
+            }
+        }],
+    ];
+    const failed_jobs: string[] = [];
+    for (const [name, job] of jobs) {
+        try {
+            Utils.withFailureEmailed(`sanityChecking ${name}`, job);
+        } catch (e) {
+            failed_jobs.push(name);
+        }
+    }
+    Utils.assert(failed_jobs.length === 0, `Sanity checking failed in ${failed_jobs.join(', ')}`);
+}
+
+// Triggered when time-driven trigger, if digest isn't sent with sanity checking
+function sendDigest() {
+    Utils.withFailureEmailed("sendDigest", () => Digest.sendDigest());
+}
+
 function setupTriggers() {
     ensurePermissionsEstablished();
     cancelTriggers();
@@ -134,8 +213,18 @@ function setupTriggers() {
                 .everyDays(1)
                 .create();
             Logger.log(`Created trigger ${trigger.getHandlerFunction()}: ${trigger.getUniqueId()}`);
+            let trigger_count = 2;
+            if (!Digest.isSentWithSanityChecking(config)) {
+                trigger = ScriptApp.newTrigger('sendDigest')
+                    .timeBased()
+                    .atHour(config.digest_hour_of_day)
+                    .everyDays(1)
+                    .create();
+                Logger.log(`Created trigger ${trigger.getHandlerFunction()}: ${trigger.getUniqueId()}`);
+                trigger_count++;
+            }
 
-            Utils.assert(ScriptApp.getProjectTriggers().length === 2,
+            Utils.assert(ScriptApp.getProjectTriggers().length === trigger_count,
                 `Unexpected trigger lists: ${ScriptApp.getProjectTriggers()
                     .map(trigger => trigger.getHandlerFunction())}`);
         });
@@ -155,9 +244,19 @@ function testAll() {
     const jestExpect = new JestExpect();
     const jestIt = new JestIt();
 
+    ConditionParser.testConditionParser(jestIt.it, jestExpect.expect);
     Condition.testRegex(jestIt.it, jestExpect.expect);
     Condition.testConditionParsing(jestIt.it, jestExpect.expect);
+    NamedConditions.testNamedConditions(jestIt.it, jestExpect.expect);
+    Templates.testTemplates(jestIt.it, jestExpect.expect);
     Rule.testRules(jestIt.it, jestExpect.expect);
+    RuleLinter.testRuleLinter(jestIt.it, jestExpect.expect);
+    GmailFilters.testGmailFilters(jestIt.it, jestExpect.expect);
     ThreadAction.testThreadActions(jestIt.it, jestExpect.expect);
+    ThreadData.testThreadData(jestIt.it, jestExpect.expect);
+    DeferredAction.testDeferredActions(jestIt.it, jestExpect.expect);
+    Digest.testDigest(jestIt.it, jestExpect.expect);
+    RuleIndex.testRuleIndex(jestIt.it, jestExpect.expect);
     Processor.testProcessing(jestIt.it, jestExpect.expect);
+    Retention.testRetention(jestIt.it, jestExpect.expect);
 }
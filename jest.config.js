@@ -17,4 +17,5 @@
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
+  setupFiles: ['./jest.setup.js'],
 };
\ No newline at end of file